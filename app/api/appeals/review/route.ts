@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { canReviewAppeal, fetchAppeal } from '@/lib/task-registry';
+import {
+  archiveAppealDecision,
+  decideAppeal,
+  signedAppealReviewSchema,
+  verifyAppealReview,
+} from '@/lib/appeal-review';
+
+/**
+ * Rule on a pending appeal: re-run verification or override it. The decision is archived to
+ * 0G Storage; the reviewer then records it with
+ * `TaskRegistry.resolveAppeal(appealId, approved, sybilScore, decisionRoot)`.
+ * POST { review: { appealId, action, reason, sybilScore?, issuedAt }, reviewer, signature }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = signedAppealReviewSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid appeal review' }, { status: 400 });
+  }
+
+  const verification = verifyAppealReview(parsed.data);
+  if (!verification.valid) {
+    return NextResponse.json({ error: verification.details }, { status: 403 });
+  }
+
+  try {
+    const { appealId } = parsed.data.review;
+    const appeal = await fetchAppeal(appealId);
+    if (appeal.status !== 'PENDING') {
+      return NextResponse.json({ error: 'Appeal is not pending' }, { status: 400 });
+    }
+    if (!(await canReviewAppeal(appealId, parsed.data.reviewer))) {
+      return NextResponse.json({ error: 'Not authorized to review appeal' }, { status: 403 });
+    }
+
+    const decision = await decideAppeal(appeal, parsed.data);
+    const decisionRoot = await archiveAppealDecision(decision);
+    return NextResponse.json({ decision, decisionRoot });
+  } catch (error) {
+    console.error('Error reviewing appeal:', error);
+    return NextResponse.json({ error: 'Failed to review appeal' }, { status: 502 });
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { canReviewAppeal, fetchCompletion, fetchPendingAppeals, fetchTask } from '@/lib/task-registry';
+import {
+  archiveAppealRequest,
+  isRejectedCompletion,
+  signedAppealRequestSchema,
+  verifyAppealRequest,
+} from '@/lib/appeal-review';
+
+/**
+ * List appeals awaiting review, optionally only those `reviewer` may resolve
+ * GET ?reviewer=
+ */
+export async function GET(request: NextRequest) {
+  const reviewer = request.nextUrl.searchParams.get('reviewer');
+  if (reviewer !== null && !ethers.isAddress(reviewer)) {
+    return NextResponse.json({ error: 'Invalid reviewer address' }, { status: 400 });
+  }
+
+  try {
+    const pending = await fetchPendingAppeals();
+    const appeals = reviewer
+      ? (
+          await Promise.all(
+            pending.map(async appeal => ((await canReviewAppeal(appeal.id, reviewer)) ? [appeal] : []))
+          )
+        ).flat()
+      : pending;
+    return NextResponse.json({ appeals });
+  } catch (error) {
+    console.error('Error loading appeals:', error);
+    return NextResponse.json({ error: 'Failed to load appeals' }, { status: 502 });
+  }
+}
+
+/**
+ * Archive the evidence for an appeal against a rejected completion. The wallet then opens the
+ * appeal with `TaskRegistry.submitAppeal(taskId, evidenceRoot)`.
+ * POST { appeal: { version, taskId, walletAddress, statement, attachments, proofData?, issuedAt }, signature }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = signedAppealRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'Invalid appeal request' }, { status: 400 });
+  }
+
+  const verification = verifyAppealRequest(parsed.data);
+  if (!verification.valid) {
+    return NextResponse.json({ error: verification.details }, { status: 403 });
+  }
+
+  try {
+    const { taskId, walletAddress } = parsed.data.appeal;
+    const [task, completion] = await Promise.all([fetchTask(taskId), fetchCompletion(taskId, walletAddress)]);
+    if (!isRejectedCompletion(task, completion)) {
+      return NextResponse.json({ error: 'Completion was not rejected' }, { status: 400 });
+    }
+
+    const evidenceRoot = await archiveAppealRequest(parsed.data);
+    return NextResponse.json({ evidenceRoot });
+  } catch (error) {
+    console.error('Error archiving appeal:', error);
+    return NextResponse.json({ error: 'Failed to archive appeal' }, { status: 502 });
+  }
+}
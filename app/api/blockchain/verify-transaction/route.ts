@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { DECIMAL_AMOUNT_PATTERN, InvalidAmountError, verifyTokenTransfer } from '@/lib/transaction-verification';
+import { isSupportedChain } from '@/lib/chains';
+
+const address = (message: string) => z.string({ message }).refine(value => ethers.isAddress(value), message);
+
+const bodySchema = z.object(
+  {
+    txHash: z
+      .string({ message: 'Invalid transaction hash' })
+      .refine(value => ethers.isHexString(value, 32), 'Invalid transaction hash'),
+    walletAddress: address('Invalid wallet address'),
+    // Native token transfers when unset
+    tokenAddress: address('Invalid token address').optional(),
+    expectedAmount: z
+      .union([z.string(), z.number()], { errorMap: () => ({ message: 'Invalid expected amount' }) })
+      .transform(String)
+      .pipe(z.string().regex(DECIMAL_AMOUNT_PATTERN, 'Invalid expected amount')),
+    chainId: z
+      .number({ message: 'Invalid chain ID' })
+      .int('Invalid chain ID')
+      .refine(isSupportedChain, chainId => ({ message: `Unsupported chain: ${chainId}` }))
+      .optional(),
+  },
+  { message: 'Invalid request body' }
+);
+
+/**
+ * Verify an on-chain transfer for ONCHAIN tasks
+ * POST { txHash, walletAddress, expectedAmount, tokenAddress, chainId? }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ verified: false, details: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ verified: false, details: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { txHash, walletAddress, expectedAmount, tokenAddress = ethers.ZeroAddress, chainId } = parsed.data;
+
+  try {
+    const result = await verifyTokenTransfer({ txHash, walletAddress, expectedAmount, tokenAddress, chainId });
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof InvalidAmountError) {
+      return NextResponse.json({ verified: false, details: error.message }, { status: 400 });
+    }
+    console.error('Error verifying transaction:', error);
+    return NextResponse.json({ verified: false, details: 'Blockchain lookup failed' }, { status: 502 });
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { getDiscordClient, toDiscordLinkProvider } from '@/lib/discord-verification';
+import { getOAuthStateCookie, startOAuthLink } from '@/lib/social-linking';
+
+const bodySchema = z.object(
+  {
+    walletAddress: z
+      .string({ message: 'Invalid wallet address' })
+      .refine(value => ethers.isAddress(value), 'Invalid wallet address'),
+    signature: z
+      .string({ message: 'Invalid signature' })
+      .refine(value => ethers.isHexString(value, 65), 'Invalid signature'),
+  },
+  { message: 'Invalid request body' }
+);
+
+/**
+ * Check a signed Discord link challenge and return the OAuth2 authorize URL
+ * POST { walletAddress, signature }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { walletAddress, signature } = parsed.data;
+
+  try {
+    const { authorizeUrl, stateSecret, details } = await startOAuthLink(
+      toDiscordLinkProvider(getDiscordClient()),
+      'discord',
+      walletAddress,
+      signature
+    );
+    if (!authorizeUrl || !stateSecret) {
+      return NextResponse.json({ error: details }, { status: 400 });
+    }
+    const response = NextResponse.json({ authorizeUrl });
+    const cookie = getOAuthStateCookie('discord');
+    response.cookies.set(cookie.name, stateSecret, cookie.options);
+    return response;
+  } catch (error) {
+    console.error('Error starting Discord link:', error);
+    return NextResponse.json({ error: 'Failed to start Discord link' }, { status: 502 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDiscordClient, toDiscordLinkProvider } from '@/lib/discord-verification';
+import { completeOAuthLink, getOAuthStateCookie } from '@/lib/social-linking';
+
+/**
+ * Discord OAuth2 redirect target; stores the link and sends the user back to the app
+ * GET ?code&state
+ */
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code');
+  const state = request.nextUrl.searchParams.get('state');
+  const cookie = getOAuthStateCookie('discord');
+  const redirect = (status: string, details?: string) => {
+    const url = new URL('/', request.url);
+    url.searchParams.set('discordLink', status);
+    if (details) url.searchParams.set('details', details);
+    const response = NextResponse.redirect(url);
+    // The state cookie is single-use
+    response.cookies.set(cookie.name, '', { ...cookie.options, maxAge: 0 });
+    return response;
+  };
+
+  if (!code || !state) {
+    return redirect('failed', request.nextUrl.searchParams.get('error') ?? 'Missing OAuth2 code');
+  }
+
+  try {
+    const result = await completeOAuthLink(
+      toDiscordLinkProvider(getDiscordClient()),
+      'discord',
+      code,
+      state,
+      request.cookies.get(cookie.name)?.value
+    );
+    return result.linked ? redirect('linked') : redirect('failed', result.details);
+  } catch (error) {
+    console.error('Error completing Discord link:', error);
+    return redirect('failed', 'Discord link verification failed');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkDiscordAction, DISCORD_ACTIONS, getDiscordClient } from '@/lib/discord-verification';
+import { DiscordApiError } from '@/lib/discord-client';
+
+const snowflake = (message: string) => z.string({ message }).regex(/^\d+$/, message);
+
+const bodySchema = z.object(
+  {
+    action: z.enum(DISCORD_ACTIONS, { message: 'Unsupported Discord action' }),
+    proof: z.object(
+      {
+        userId: snowflake('Invalid Discord user ID'),
+        guildId: snowflake('Invalid guild ID'),
+        roleIds: z.array(snowflake('Invalid role IDs'), { message: 'Invalid role IDs' }).optional(),
+      },
+      { message: 'Missing proof' }
+    ),
+  },
+  { message: 'Invalid request body' }
+);
+
+/**
+ * Verify Discord guild membership or roles for OFFCHAIN_DISCORD tasks
+ * POST { action, proof: { userId, guildId, roleIds? } }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ verified: false, details: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ verified: false, details: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { action, proof } = parsed.data;
+
+  try {
+    const result = await checkDiscordAction(getDiscordClient(), {
+      action,
+      userId: proof.userId,
+      guildId: proof.guildId,
+      roleIds: proof.roleIds,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error verifying Discord action:', error);
+    const status = error instanceof DiscordApiError && error.status === 429 ? 429 : 502;
+    return NextResponse.json({ verified: false, details: 'Discord lookup failed' }, { status });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getGitHubClient, toGitHubLinkProvider } from '@/lib/github-verification';
+import { completeOAuthLink, getOAuthStateCookie } from '@/lib/social-linking';
+
+/**
+ * GitHub OAuth redirect target; stores the link and sends the user back to the app
+ * GET ?code&state
+ */
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code');
+  const state = request.nextUrl.searchParams.get('state');
+  const cookie = getOAuthStateCookie('github');
+  const redirect = (status: string, details?: string) => {
+    const url = new URL('/', request.url);
+    url.searchParams.set('githubLink', status);
+    if (details) url.searchParams.set('details', details);
+    const response = NextResponse.redirect(url);
+    // The state cookie is single-use
+    response.cookies.set(cookie.name, '', { ...cookie.options, maxAge: 0 });
+    return response;
+  };
+
+  if (!code || !state) {
+    return redirect('failed', request.nextUrl.searchParams.get('error') ?? 'Missing OAuth code');
+  }
+
+  try {
+    const result = await completeOAuthLink(
+      toGitHubLinkProvider(getGitHubClient()),
+      'github',
+      code,
+      state,
+      request.cookies.get(cookie.name)?.value
+    );
+    return result.linked ? redirect('linked') : redirect('failed', result.details);
+  } catch (error) {
+    console.error('Error completing GitHub link:', error);
+    return redirect('failed', 'GitHub link verification failed');
+  }
+}
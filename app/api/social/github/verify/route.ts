@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkGitHubAction, GITHUB_ACTIONS, getGitHubClient } from '@/lib/github-verification';
+import { GitHubApiError } from '@/lib/github-client';
+
+// GitHub owner and repository names
+const repoSegment = z.string({ message: 'Invalid repository' }).regex(/^[\w.-]{1,100}$/, 'Invalid repository');
+
+const count = (message: string) => z.number({ message }).int(message).nonnegative(message).optional();
+
+const bodySchema = z
+  .object(
+    {
+      action: z.enum(GITHUB_ACTIONS, { message: 'Unsupported GitHub action' }),
+      proof: z.object(
+        {
+          userId: z.string({ message: 'Invalid GitHub user ID' }).regex(/^\d+$/, 'Invalid GitHub user ID'),
+          owner: repoSegment.optional(),
+          repo: repoSegment.optional(),
+          since: count('Invalid since'),
+          minAccountAgeDays: count('Invalid minAccountAgeDays'),
+          minContributions: count('Invalid minContributions'),
+        },
+        { message: 'Missing proof' }
+      ),
+    },
+    { message: 'Invalid request body' }
+  )
+  .refine(({ action, proof }) => action === 'account' || (proof.owner && proof.repo), {
+    message: 'Invalid repository',
+    path: ['proof', 'repo'],
+  });
+
+/**
+ * Verify a GitHub action for OFFCHAIN_GITHUB tasks
+ * POST { action, proof: { userId, owner?, repo?, since?, minAccountAgeDays?, minContributions? } }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ verified: false, details: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ verified: false, details: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { action, proof } = parsed.data;
+
+  try {
+    const result = await checkGitHubAction(getGitHubClient(), {
+      action,
+      userId: proof.userId,
+      owner: proof.owner,
+      repo: proof.repo,
+      since: proof.since,
+      minAccountAgeDays: proof.minAccountAgeDays,
+      minContributions: proof.minContributions,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error verifying GitHub action:', error);
+    const status = error instanceof GitHubApiError && error.status === 429 ? 429 : 502;
+    return NextResponse.json({ verified: false, details: 'GitHub lookup failed' }, { status });
+  }
+}
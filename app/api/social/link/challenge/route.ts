@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { createLinkChallenge, isOAuthPlatform, SOCIAL_PLATFORMS } from '@/lib/social-linking';
+
+const bodySchema = z
+  .object(
+    {
+      walletAddress: z
+        .string({ message: 'Invalid wallet address' })
+        .refine(value => ethers.isAddress(value), 'Invalid wallet address'),
+      platform: z.enum(SOCIAL_PLATFORMS, { message: 'Unsupported social platform' }),
+      handle: z.string({ message: 'Invalid handle' }).optional(),
+    },
+    { message: 'Invalid request body' }
+  )
+  .refine(body => isOAuthPlatform(body.platform) || /^@?\w{1,15}$/.test(body.handle ?? ''), {
+    message: 'Invalid handle',
+    path: ['handle'],
+  });
+
+/**
+ * Issue a challenge for linking a wallet to a social account
+ * POST { walletAddress, platform, handle? } (handle is required unless the platform links through OAuth)
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { walletAddress, platform, handle } = parsed.data;
+
+  try {
+    const challenge = await createLinkChallenge(walletAddress, platform, isOAuthPlatform(platform) ? undefined : handle);
+    return NextResponse.json(challenge);
+  } catch (error) {
+    console.error('Error creating link challenge:', error);
+    return NextResponse.json({ error: 'Failed to store link challenge' }, { status: 502 });
+  }
+}
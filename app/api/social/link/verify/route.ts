@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { verifyTwitterLink } from '@/lib/social-linking';
+import { getTwitterClient } from '@/lib/twitter-verification';
+
+const bodySchema = z.object(
+  {
+    walletAddress: z
+      .string({ message: 'Invalid wallet address' })
+      .refine(value => ethers.isAddress(value), 'Invalid wallet address'),
+    // OAuth platforms complete the link through their callback route instead
+    platform: z.enum(['twitter'], { message: 'Unsupported social platform' }),
+    signature: z
+      .string({ message: 'Invalid signature' })
+      .refine(value => ethers.isHexString(value, 65), 'Invalid signature'),
+    tweetId: z.string({ message: 'Invalid tweet ID' }).regex(/^\d+$/, 'Invalid tweet ID').optional(),
+  },
+  { message: 'Invalid request body' }
+);
+
+/**
+ * Verify a signed link challenge and store the wallet↔handle binding
+ * POST { walletAddress, platform, signature, tweetId? }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ linked: false, details: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ linked: false, details: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { walletAddress, signature, tweetId } = parsed.data;
+
+  try {
+    const result = await verifyTwitterLink(getTwitterClient(), { walletAddress, signature, tweetId });
+    return NextResponse.json(result, { status: result.linked ? 200 : 400 });
+  } catch (error) {
+    console.error('Error verifying social link:', error);
+    return NextResponse.json({ linked: false, details: 'Social link verification failed' }, { status: 502 });
+  }
+}
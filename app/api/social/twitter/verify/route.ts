@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkTwitterAction, getTwitterClient, TWITTER_ACTIONS } from '@/lib/twitter-verification';
+import { TwitterApiError } from '@/lib/twitter-client';
+
+const numericId = (message: string) => z.string({ message }).regex(/^\d+$/, message);
+
+const bodySchema = z.object(
+  {
+    action: z.enum(TWITTER_ACTIONS, { message: 'Unsupported Twitter action' }),
+    tweetId: numericId('Invalid tweet ID').optional(),
+    proof: z
+      .object(
+        {
+          userId: z.string().optional(),
+          username: z.string().optional(),
+          targetUserId: z.string().optional(),
+          targetUsername: z.string().optional(),
+        },
+        { message: 'Missing Twitter account in proof' }
+      )
+      .refine(proof => proof.userId || proof.username, 'Missing Twitter account in proof'),
+  },
+  { message: 'Invalid request body' }
+);
+
+/**
+ * Verify a Twitter action for OFFCHAIN_SOCIAL tasks
+ * POST { tweetId?, action, proof: { userId | username, targetUserId | targetUsername } }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ verified: false, details: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ verified: false, details: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { tweetId, action, proof } = parsed.data;
+
+  try {
+    const result = await checkTwitterAction(getTwitterClient(), {
+      action,
+      tweetId,
+      userId: proof.userId,
+      username: proof.username,
+      targetUserId: proof.targetUserId,
+      targetUsername: proof.targetUsername,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error verifying Twitter action:', error);
+    const status = error instanceof TwitterApiError && error.status === 429 ? 429 : 502;
+    return NextResponse.json({ verified: false, details: 'Twitter lookup failed' }, { status });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  signedFingerprintBundleSchema,
+  storeFingerprintBundle,
+  verifyFingerprintBundle,
+} from '@/lib/fingerprint-store';
+
+/**
+ * Store the signed device fingerprint bundle submitted with a task completion
+ * POST { bundle: { version, taskId, walletAddress, fingerprint, issuedAt }, signature }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ stored: false, details: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = signedFingerprintBundleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ stored: false, details: 'Invalid fingerprint bundle' }, { status: 400 });
+  }
+
+  const verification = verifyFingerprintBundle(parsed.data);
+  if (!verification.valid) {
+    return NextResponse.json({ stored: false, details: verification.details }, { status: 400 });
+  }
+
+  try {
+    await storeFingerprintBundle(parsed.data);
+    return NextResponse.json({ stored: true, details: 'Fingerprint bundle stored' });
+  } catch (error) {
+    console.error('Error storing fingerprint bundle:', error);
+    return NextResponse.json({ stored: false, details: 'Failed to store fingerprint bundle' }, { status: 502 });
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { fetchTask } from '@/lib/task-registry';
+import {
+  getTaskSybilRules,
+  parseSybilRules,
+  saveTaskSybilRules,
+  SybilRuleSet,
+  verifySybilRulesSignature,
+} from '@/lib/sybil-rules';
+import { dryRunSybilRules } from '@/lib/sybil-scoring';
+
+const bodySchema = z.object(
+  {
+    taskId: z.number({ message: 'Invalid task ID' }).int('Invalid task ID').positive('Invalid task ID'),
+    // Parsed after the shape checks, and signed as submitted
+    rules: z.unknown(),
+    issuedAt: z.number({ message: 'Invalid issuedAt' }).int('Invalid issuedAt'),
+    signature: z
+      .string({ message: 'Invalid signature' })
+      .refine(value => ethers.isHexString(value, 65), 'Invalid signature'),
+    dryRun: z.boolean({ message: 'Invalid dryRun' }).default(false),
+  },
+  { message: 'Invalid request body' }
+);
+
+/**
+ * Get the sybil rules a task is scored with
+ * GET ?taskId=
+ */
+export async function GET(request: NextRequest) {
+  const taskId = Number(request.nextUrl.searchParams.get('taskId'));
+  if (!Number.isInteger(taskId) || taskId <= 0) {
+    return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ rules: await getTaskSybilRules(taskId) });
+  } catch (error) {
+    console.error('Error loading sybil rules:', error);
+    return NextResponse.json({ error: 'Failed to load sybil rules' }, { status: 502 });
+  }
+}
+
+/**
+ * Set a task's sybil rules, or with `dryRun` show how they would have scored its past participants.
+ * Signed by the task's advertiser over `buildSybilRulesMessage`.
+ * POST { taskId, rules, issuedAt, signature, dryRun? }
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const parsed = bodySchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: parsed.error.issues[0].message }, { status: 400 });
+  }
+  const { taskId, rules, issuedAt, signature, dryRun } = parsed.data;
+
+  let ruleSet: SybilRuleSet;
+  try {
+    ruleSet = parseSybilRules(rules);
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+  }
+
+  try {
+    const task = await fetchTask(taskId);
+    const verification = verifySybilRulesSignature({ taskId, rules, issuedAt, dryRun, signature }, task.advertiser);
+    if (!verification.valid) {
+      return NextResponse.json({ error: verification.details }, { status: 403 });
+    }
+
+    if (dryRun) {
+      const participants = await dryRunSybilRules(taskId, ruleSet);
+      return NextResponse.json({
+        sybilThreshold: task.sybilThreshold,
+        participants: participants.map(participant => ({
+          ...participant,
+          passedBefore: participant.previousScore >= task.sybilThreshold,
+          passes: participant.score >= task.sybilThreshold,
+        })),
+      });
+    }
+
+    await saveTaskSybilRules(taskId, ruleSet);
+    return NextResponse.json({ saved: true, rules: ruleSet });
+  } catch (error) {
+    console.error('Error handling sybil rules:', error);
+    return NextResponse.json({ error: 'Failed to handle sybil rules' }, { status: 502 });
+  }
+}
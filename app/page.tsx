@@ -1,6 +1,6 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -24,9 +24,21 @@ import {
   Gamepad2,
   Sparkles,
 } from "lucide-react"
+import { getFingerprintConsent, setFingerprintConsent } from "@/lib/device-fingerprint"
 
 export default function HomarePlatform() {
   const [showOnChain, setShowOnChain] = useState(true)
+  const [fingerprintConsent, setFingerprintConsentState] = useState(false)
+
+  // Consent lives in localStorage, which is only readable after hydration
+  useEffect(() => {
+    setFingerprintConsentState(getFingerprintConsent())
+  }, [])
+
+  const handleFingerprintConsentChange = (granted: boolean) => {
+    setFingerprintConsent(granted)
+    setFingerprintConsentState(granted)
+  }
 
   const campaignTasks = [
     {
@@ -308,6 +320,15 @@ export default function HomarePlatform() {
                   </div>
                   <Progress value={96} className="bg-muted" />
                 </div>
+                <div className="flex items-center justify-between space-x-4">
+                  <div>
+                    <span className="text-card-foreground">Enhanced Device Attestation</span>
+                    <p className="text-xs text-muted-foreground">
+                      Share canvas, WebGL, audio, font and media-device signals when completing tasks
+                    </p>
+                  </div>
+                  <Switch checked={fingerprintConsent} onCheckedChange={handleFingerprintConsentChange} />
+                </div>
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Task Completion Rate</span>
@@ -4,6 +4,10 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
 
+interface ITaskRegistry {
+    function verifyTaskCompletion(uint256 _taskId, address _user, bool _verified, uint256 _sybilScore) external;
+}
+
 /**
  * @title VerifierGateway
  * @dev Gateway for ØG Compute verification services
@@ -41,6 +45,7 @@ contract VerifierGateway is Ownable, ReentrancyGuard {
 
     // Events
     event VerificationRequested(
+        uint256 indexed requestId,
         uint256 indexed taskId,
         address indexed user,
         VerificationType verificationType,
@@ -105,7 +110,7 @@ contract VerifierGateway is Ownable, ReentrancyGuard {
             })
         });
 
-        emit VerificationRequested(_taskId, _user, _verificationType, _proofData);
+        emit VerificationRequested(requestId, _taskId, _user, _verificationType, _proofData);
         
         // Trigger ØG Compute verification
         _triggerOGComputeVerification(requestId, _verificationType, _proofData);
@@ -221,14 +226,10 @@ contract VerifierGateway is Ownable, ReentrancyGuard {
         VerificationType _verificationType,
         string memory _proofData
     ) internal {
-        // This would integrate with ØG Compute for AI-powered verification
-        // For now, we'll simulate the verification process
-        
-        // In a real implementation, this would:
-        // 1. Send verification request to ØG Compute
-        // 2. Wait for AI model processing
-        // 3. Receive verification result and sybil score
-        // 4. Call completeVerification with results
+        // Verification is performed off-chain by the oracle worker (lib/oracle-worker.ts):
+        // 1. The worker picks up the VerificationRequested event
+        // 2. Runs the verifier for the request's verification type
+        // 3. Calls completeVerification with the result and sybil score
     }
 
     /**
@@ -244,8 +245,7 @@ contract VerifierGateway is Ownable, ReentrancyGuard {
         bool _verified,
         uint256 _sybilScore
     ) internal {
-        // This would call the task registry's verifyTaskCompletion function
-        // For now, we'll emit an event that the registry can listen to
+        ITaskRegistry(taskRegistry).verifyTaskCompletion(_taskId, _user, _verified, _sybilScore);
     }
 
     /**
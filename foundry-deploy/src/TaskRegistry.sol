@@ -6,6 +6,15 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
+interface IVerifierGateway {
+    function requestVerification(
+        uint256 _taskId,
+        address _user,
+        uint8 _verificationType,
+        string memory _proofData
+    ) external returns (uint256);
+}
+
 /**
  * @title TaskRegistry
  * @dev Registry for managing Web3 affiliate campaign tasks on ØG Chain
@@ -62,11 +71,42 @@ contract TaskRegistry is Ownable, ReentrancyGuard {
         uint256 sybilScore;
     }
 
+    // Appeal status
+    enum AppealStatus {
+        NONE,
+        PENDING,
+        APPROVED,
+        REJECTED
+    }
+
+    // Appeal against a rejected task completion
+    struct Appeal {
+        uint256 id;
+        uint256 taskId;
+        address user;
+        AppealStatus status;
+        string evidenceRoot; // 0G Storage root hash of the user's evidence
+        uint256 submittedAt;
+        address reviewer;
+        uint256 resolvedAt;
+        string decisionRoot; // 0G Storage root hash of the reviewer's decision
+    }
+
     // Events
     event TaskCreated(uint256 indexed taskId, address indexed advertiser, string name);
     event TaskCompleted(uint256 indexed taskId, address indexed user, uint256 rewardAmount);
     event TaskVerified(uint256 indexed taskId, address indexed user, bool verified);
     event TaskStatusUpdated(uint256 indexed taskId, TaskStatus newStatus);
+    event AppealSubmitted(uint256 indexed appealId, uint256 indexed taskId, address indexed user, string evidenceRoot);
+    event AppealResolved(
+        uint256 indexed appealId,
+        uint256 indexed taskId,
+        address indexed user,
+        bool approved,
+        address reviewer,
+        string decisionRoot
+    );
+    event AppealReviewerUpdated(address indexed reviewer, bool authorized);
 
     // State variables
     uint256 public nextTaskId = 1;
@@ -84,6 +124,14 @@ contract TaskRegistry is Ownable, ReentrancyGuard {
     // Supported reward tokens
     mapping(address => bool) public supportedTokens;
 
+    // Appeals
+    uint256 public nextAppealId = 1;
+    uint256 public appealWindow = 7 days; // After the oracle's verdict
+    mapping(uint256 => Appeal) public appeals;
+    mapping(uint256 => mapping(address => uint256)) public completionAppeals; // taskId => user => appealId
+    mapping(uint256 => mapping(address => uint256)) public verificationTimes; // When the oracle ruled on a completion
+    mapping(address => bool) public appealReviewers;
+
     constructor(address _verificationOracle, address _payoutSplitter) Ownable(msg.sender) {
         verificationOracle = _verificationOracle;
         payoutSplitter = _payoutSplitter;
@@ -195,6 +243,7 @@ contract TaskRegistry is Ownable, ReentrancyGuard {
         TaskCompletion storage completion = taskCompletions[_taskId][_user];
         completion.verified = _verified;
         completion.sybilScore = _sybilScore;
+        verificationTimes[_taskId][_user] = block.timestamp;
 
         if (_verified && _sybilScore >= tasks[_taskId].sybilThreshold) {
             // Trigger payout through PayoutSplitter
@@ -204,6 +253,114 @@ contract TaskRegistry is Ownable, ReentrancyGuard {
         emit TaskVerified(_taskId, _user, _verified);
     }
 
+    /**
+     * @dev Appeal a rejected task completion (called by user)
+     * @param _taskId Task ID
+     * @param _evidenceRoot 0G Storage root hash of the appeal evidence
+     * @return Appeal ID
+     */
+    function submitAppeal(uint256 _taskId, string memory _evidenceRoot) external returns (uint256) {
+        TaskCompletion storage completion = taskCompletions[_taskId][msg.sender];
+        uint256 verifiedAt = verificationTimes[_taskId][msg.sender];
+        require(completion.completed, "Task not completed by user");
+        require(verifiedAt != 0, "Completion not verified yet");
+        require(
+            !completion.verified || completion.sybilScore < tasks[_taskId].sybilThreshold,
+            "Completion was not rejected"
+        );
+        require(block.timestamp <= verifiedAt + appealWindow, "Appeal window has closed");
+        require(completionAppeals[_taskId][msg.sender] == 0, "Completion already appealed");
+        require(bytes(_evidenceRoot).length > 0, "Evidence is required");
+
+        uint256 appealId = nextAppealId++;
+        appeals[appealId] = Appeal({
+            id: appealId,
+            taskId: _taskId,
+            user: msg.sender,
+            status: AppealStatus.PENDING,
+            evidenceRoot: _evidenceRoot,
+            submittedAt: block.timestamp,
+            reviewer: address(0),
+            resolvedAt: 0,
+            decisionRoot: ""
+        });
+        completionAppeals[_taskId][msg.sender] = appealId;
+
+        emit AppealSubmitted(appealId, _taskId, msg.sender, _evidenceRoot);
+        return appealId;
+    }
+
+    /**
+     * @dev Resolve a pending appeal (called by the task's advertiser or an appeal reviewer).
+     * Approving pays the reward out; rejecting returns the completion's participant slot to the task.
+     * @param _appealId Appeal ID
+     * @param _approved Whether the completion is accepted
+     * @param _sybilScore Sybil score after review
+     * @param _decisionRoot 0G Storage root hash of the decision record
+     */
+    function resolveAppeal(
+        uint256 _appealId,
+        bool _approved,
+        uint256 _sybilScore,
+        string memory _decisionRoot
+    ) external nonReentrant {
+        Appeal storage appeal = appeals[_appealId];
+        require(appeal.status == AppealStatus.PENDING, "Appeal is not pending");
+        require(canReviewAppeal(_appealId, msg.sender), "Not authorized to review appeal");
+        require(_sybilScore <= 100, "Invalid sybil score");
+        require(bytes(_decisionRoot).length > 0, "Decision record is required");
+
+        appeal.status = _approved ? AppealStatus.APPROVED : AppealStatus.REJECTED;
+        appeal.reviewer = msg.sender;
+        appeal.resolvedAt = block.timestamp;
+        appeal.decisionRoot = _decisionRoot;
+
+        TaskCompletion storage completion = taskCompletions[appeal.taskId][appeal.user];
+        completion.verified = _approved;
+        completion.sybilScore = _sybilScore;
+
+        if (_approved) {
+            _triggerPayout(appeal.taskId, appeal.user);
+        } else {
+            tasks[appeal.taskId].currentParticipants--;
+        }
+
+        emit TaskVerified(appeal.taskId, appeal.user, _approved);
+        emit AppealResolved(_appealId, appeal.taskId, appeal.user, _approved, msg.sender, _decisionRoot);
+    }
+
+    /**
+     * @dev Whether an address may resolve an appeal
+     * @param _appealId Appeal ID
+     * @param _reviewer Reviewer address
+     * @return True for the owner, the task's advertiser and appeal reviewers
+     */
+    function canReviewAppeal(uint256 _appealId, address _reviewer) public view returns (bool) {
+        return
+            _reviewer == owner() ||
+            _reviewer == tasks[appeals[_appealId].taskId].advertiser ||
+            appealReviewers[_reviewer];
+    }
+
+    /**
+     * @dev Authorize or revoke an appeal reviewer
+     * @param _reviewer Reviewer address
+     * @param _authorized Whether the reviewer may resolve appeals
+     */
+    function setAppealReviewer(address _reviewer, bool _authorized) external onlyOwner {
+        require(_reviewer != address(0), "Invalid reviewer address");
+        appealReviewers[_reviewer] = _authorized;
+        emit AppealReviewerUpdated(_reviewer, _authorized);
+    }
+
+    /**
+     * @dev Set how long after the oracle's verdict a completion can be appealed
+     * @param _window Appeal window in seconds
+     */
+    function setAppealWindow(uint256 _window) external onlyOwner {
+        appealWindow = _window;
+    }
+
     /**
      * @dev Update task status
      * @param _taskId Task ID
@@ -250,6 +407,33 @@ contract TaskRegistry is Ownable, ReentrancyGuard {
         return tasks[_taskId];
     }
 
+    /**
+     * @dev Get appeal details
+     * @param _appealId Appeal ID
+     * @return Appeal details
+     */
+    function getAppeal(uint256 _appealId) external view returns (Appeal memory) {
+        return appeals[_appealId];
+    }
+
+    /**
+     * @dev Get appeals awaiting review
+     * @return Array of pending appeal IDs
+     */
+    function getPendingAppeals() external view returns (uint256[] memory) {
+        uint256 count = 0;
+        for (uint256 i = 1; i < nextAppealId; i++) {
+            if (appeals[i].status == AppealStatus.PENDING) count++;
+        }
+
+        uint256[] memory pending = new uint256[](count);
+        uint256 index = 0;
+        for (uint256 i = 1; i < nextAppealId; i++) {
+            if (appeals[i].status == AppealStatus.PENDING) pending[index++] = i;
+        }
+        return pending;
+    }
+
     /**
      * @dev Get user's completed tasks
      * @param _user User address
@@ -274,9 +458,30 @@ contract TaskRegistry is Ownable, ReentrancyGuard {
      * @param _user User address
      */
     function _triggerVerification(uint256 _taskId, address _user) internal {
-        // This would integrate with ØG Compute for AI-powered verification
-        // For now, we'll emit an event that the oracle can listen to
         emit TaskCompleted(_taskId, _user, tasks[_taskId].rewardAmount);
+
+        // Hand the proof to the verifier gateway; the off-chain oracle picks up the request
+        IVerifierGateway(verificationOracle).requestVerification(
+            _taskId,
+            _user,
+            _verificationTypeFor(tasks[_taskId].category),
+            taskCompletions[_taskId][_user].proofData
+        );
+    }
+
+    /**
+     * @dev Map a task category to the VerifierGateway verification type
+     * @param _category Task category
+     * @return VerifierGateway.VerificationType index
+     */
+    function _verificationTypeFor(TaskCategory _category) internal pure returns (uint8) {
+        if (_category == TaskCategory.SOCIAL) {
+            return 1; // OFFCHAIN_SOCIAL
+        }
+        if (_category == TaskCategory.CUSTOM) {
+            return 4; // CUSTOM_ORACLE
+        }
+        return 0; // ONCHAIN_TRANSACTION
     }
 
     /**
@@ -1,5 +1,14 @@
-import { useAccount, useConnect, useDisconnect, useBalance, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useConnect, useDisconnect, useBalance, useReadContract, useWriteContract, useWaitForTransactionReceipt, useSignMessage } from 'wagmi';
 import { CONTRACT_ADDRESSES, TASK_REGISTRY_ABI, PAYOUT_SPLITTER_ABI } from '@/lib/wagmi';
+import { buildFingerprintMessage, createFingerprintBundle } from '@/lib/device-fingerprint';
+import {
+  APPEAL_VERSION,
+  AppealRequest,
+  AppealReview,
+  AppealReviewAction,
+  buildAppealMessage,
+  buildAppealReviewMessage,
+} from '@/lib/appeals';
 import { useState, useEffect } from 'react';
 
 export interface Task {
@@ -130,10 +139,31 @@ export function useUserStats() {
 }
 
 export function useTaskActions() {
-  const { writeContract } = useWeb3();
+  const { address, writeContract } = useWeb3();
+  const { signMessageAsync } = useSignMessage();
+
+  // Attest this device for the completion; the oracle scores sybil risk from it server-side
+  const submitFingerprint = async (taskId: number) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+    const bundle = await createFingerprintBundle(taskId, address);
+    const signature = await signMessageAsync({ message: buildFingerprintMessage(bundle) });
+    const response = await fetch('/api/sybil/fingerprint', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ bundle, signature }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to submit device fingerprint');
+    }
+  };
 
   const completeTask = async (taskId: number, proofData: string) => {
     try {
+      await submitFingerprint(taskId);
       await writeContract({
         address: CONTRACT_ADDRESSES.TASK_REGISTRY,
         abi: TASK_REGISTRY_ABI,
@@ -166,3 +196,76 @@ export function useTaskActions() {
   };
 }
 
+
+export function useAppealActions() {
+  const { address, writeContract } = useWeb3();
+  const { signMessageAsync } = useSignMessage();
+
+  // Archive the evidence to 0G Storage, then open the appeal on-chain with its root hash
+  const submitAppeal = async (
+    taskId: number,
+    evidence: Pick<AppealRequest, 'statement' | 'attachments' | 'proofData'>
+  ) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+    const appeal: AppealRequest = {
+      version: APPEAL_VERSION,
+      taskId,
+      walletAddress: address,
+      ...evidence,
+      issuedAt: Date.now(),
+    };
+    const signature = await signMessageAsync({ message: buildAppealMessage(appeal) });
+    const response = await fetch('/api/appeals', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ appeal, signature }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to submit appeal evidence');
+    }
+    const { evidenceRoot } = await response.json();
+
+    await writeContract({
+      address: CONTRACT_ADDRESSES.TASK_REGISTRY,
+      abi: TASK_REGISTRY_ABI,
+      functionName: 'submitAppeal',
+      args: [BigInt(taskId), evidenceRoot],
+    });
+  };
+
+  // Archive the decision to 0G Storage, then record it on-chain (advertisers and appeal reviewers)
+  const resolveAppeal = async (appealId: number, action: AppealReviewAction, reason: string, sybilScore?: number) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+    const review: AppealReview = { appealId, action, reason, sybilScore, issuedAt: Date.now() };
+    const signature = await signMessageAsync({ message: buildAppealReviewMessage(review) });
+    const response = await fetch('/api/appeals/review', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ review, reviewer: address, signature }),
+    });
+    if (!response.ok) {
+      throw new Error('Failed to review appeal');
+    }
+    const { decision, decisionRoot } = await response.json();
+
+    await writeContract({
+      address: CONTRACT_ADDRESSES.TASK_REGISTRY,
+      abi: TASK_REGISTRY_ABI,
+      functionName: 'resolveAppeal',
+      args: [BigInt(appealId), decision.approved, BigInt(decision.sybilScore), decisionRoot],
+    });
+  };
+
+  return {
+    submitAppeal,
+    resolveAppeal,
+  };
+}
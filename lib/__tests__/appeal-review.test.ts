@@ -0,0 +1,138 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { AppealReviewSources, decideAppeal } from '../appeal-review';
+import { APPEAL_VERSION, AppealRequest, buildAppealMessage, SignedAppealReview } from '../appeals';
+import type { RegistryAppeal, RegistryTask } from '../task-registry';
+import type { VerificationRequest } from '../verification-oracle';
+
+const wallet = ethers.Wallet.createRandom();
+const reviewer = ethers.Wallet.createRandom();
+const TASK_ID = 7;
+
+const task: RegistryTask = {
+  id: TASK_ID,
+  advertiser: ethers.ZeroAddress,
+  name: 'Swap task',
+  description: '',
+  category: 'SWAP',
+  status: 'ACTIVE',
+  rewardAmount: BigInt(0),
+  rewardToken: ethers.ZeroAddress,
+  maxParticipants: 100,
+  currentParticipants: 1,
+  startTime: 0,
+  endTime: 0,
+  verificationCriteria: '{}',
+  requiresKYC: false,
+  sybilThreshold: 50,
+};
+
+const appeal: RegistryAppeal = {
+  id: 3,
+  taskId: TASK_ID,
+  user: wallet.address,
+  status: 'PENDING',
+  evidenceRoot: `0x${'ab'.repeat(32)}`,
+  submittedAt: 0,
+};
+
+function review(action: SignedAppealReview['review']['action']): SignedAppealReview {
+  return {
+    review: { appealId: appeal.id, action, reason: 'Looked into it', issuedAt: Date.now() },
+    reviewer: reviewer.address,
+    signature: '0x',
+  };
+}
+
+async function signAppeal(overrides: Partial<AppealRequest> = {}, signer: ethers.Signer = wallet) {
+  const request: AppealRequest = {
+    version: APPEAL_VERSION,
+    taskId: TASK_ID,
+    walletAddress: wallet.address,
+    statement: 'My swap went through the router',
+    attachments: [],
+    proofData: { transactionHash: ethers.id('swap') },
+    issuedAt: Date.now() - 24 * 60 * 60 * 1000,
+    ...overrides,
+  };
+  return { appeal: request, signature: await signer.signMessage(buildAppealMessage(request)) };
+}
+
+/**
+ * Sources serving `archived` as the appeal request, recording the verifications re-run
+ */
+function stubSources(archived: unknown) {
+  const verified: VerificationRequest[] = [];
+  const sources: AppealReviewSources = {
+    fetchTask: async () => task,
+    fetchCompletion: async () => ({
+      completed: true,
+      verified: false,
+      completionTime: 0,
+      proofData: '{}',
+      sybilScore: 0,
+      verifiedAt: 1,
+    }),
+    fetchAppealRequest: async () => archived,
+    verify: async request => {
+      verified.push(request);
+      return { verified: true, sybilScore: 80, proofHash: '0x', timestamp: Date.now(), details: 'Swap found' };
+    },
+  };
+  return { sources, verified };
+}
+
+describe('decideAppeal', () => {
+  test('re-runs verification with the proof from a request the wallet signed', async () => {
+    const signed = await signAppeal();
+    const { sources, verified } = stubSources(JSON.parse(JSON.stringify(signed)));
+
+    const decision = await decideAppeal(appeal, review('rerun'), sources);
+
+    assert.equal(decision.approved, true);
+    assert.equal(decision.sybilScore, 80);
+    assert.equal(decision.details, undefined);
+    assert.deepEqual(verified[0].proofData, signed.appeal.proofData);
+  });
+
+  test('rejects a request signed by another wallet, whatever the review', async () => {
+    const { sources, verified } = stubSources(await signAppeal({}, ethers.Wallet.createRandom()));
+
+    const decision = await decideAppeal(appeal, review('approve'), sources);
+
+    assert.equal(decision.approved, false);
+    assert.equal(decision.details, 'Appeal not signed by wallet');
+    assert.deepEqual(verified, []);
+  });
+
+  test('rejects a request whose evidence was changed after signing', async () => {
+    const signed = await signAppeal();
+    const tampered = { ...signed, appeal: { ...signed.appeal, proofData: { transactionHash: ethers.id('other') } } };
+    const { sources, verified } = stubSources(tampered);
+
+    const decision = await decideAppeal(appeal, review('rerun'), sources);
+
+    assert.equal(decision.approved, false);
+    assert.equal(decision.details, 'Appeal not signed by wallet');
+    assert.deepEqual(verified, []);
+  });
+
+  test('rejects a request signed for another task', async () => {
+    const { sources } = stubSources(await signAppeal({ taskId: TASK_ID + 1 }));
+
+    const decision = await decideAppeal(appeal, review('rerun'), sources);
+
+    assert.equal(decision.approved, false);
+    assert.equal(decision.details, 'Appeal request is for another task');
+  });
+
+  test('rejects an archive that is not an appeal request', async () => {
+    const { sources } = stubSources({ statement: 'Approve me' });
+
+    const decision = await decideAppeal(appeal, review('approve'), sources);
+
+    assert.equal(decision.approved, false);
+    assert.equal(decision.details, 'Invalid appeal request');
+  });
+});
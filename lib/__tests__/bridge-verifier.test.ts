@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { verifyBridgeTransfer } from '../bridge-verifier';
+import { FixtureProvider, RpcFixture } from './helpers/fixture-provider';
+import sourceReceipts from './fixtures/bridge-source-receipts.json';
+import destinationReceipts from './fixtures/bridge-destination-receipts.json';
+
+const WALLET = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const CHILD_USDC = '0x2791bca1f2de4661ed88a30c99a7a9449aa84174';
+const CHILD_CHAIN_MANAGER = '0xA6FA4fB5f76172d178d61B04b0ecd319C5d1C0aa';
+const DEPOSIT_TX = ethers.id('polygon-deposit');
+const RELEASE_TX = ethers.id('polygon-state-sync');
+// The deposit is 10 blocks behind the source fixture's head
+const DEPOSITED_AT = sourceReceipts.latestTimestamp - 10 * sourceReceipts.blockTime;
+// polygon-pos-erc20 pays out within two hours
+const RELEASE_DEADLINE = DEPOSITED_AT + 2 * 60 * 60;
+
+const childChainManager = new ethers.Interface(['function rootToChildToken(address) view returns (address)']);
+
+const options = {
+  walletAddress: WALLET,
+  sourceChainId: 1,
+  destinationChainId: 137,
+  routes: ['polygon-pos-erc20'],
+};
+
+/**
+ * Polygon, with its head at `timestamp` and USDC mapped to `childToken`. Besides the state-sync
+ * mint of the child token, the fixture holds a mint of the same amount to the wallet by an
+ * unrelated token, 10 minutes after the deposit.
+ */
+function destinationAt(timestamp: number, childToken = CHILD_USDC, receipts?: RpcFixture['receipts']) {
+  const fixture = destinationReceipts as RpcFixture;
+  const provider = new FixtureProvider({
+    ...fixture,
+    receipts: receipts ?? fixture.receipts,
+    latestBlock: fixture.latestBlock - (fixture.latestTimestamp - timestamp) / fixture.blockTime,
+    latestTimestamp: timestamp,
+  });
+  provider.mockCall(CHILD_CHAIN_MANAGER, childChainManager, 'rootToChildToken', [USDC], [childToken]);
+  return provider;
+}
+
+function verify(destination: FixtureProvider) {
+  return verifyBridgeTransfer(DEPOSIT_TX, options, {
+    source: new FixtureProvider(sourceReceipts as RpcFixture),
+    destination,
+  });
+}
+
+describe('verifyBridgeTransfer', () => {
+  test('matches the mint of the mapped child token', async () => {
+    const result = await verify(destinationAt(DEPOSITED_AT + 1800));
+
+    assert.equal(result.verified, true, result.details);
+    assert.equal(result.route, 'polygon-pos-erc20');
+    assert.equal(result.deposit?.timestamp, DEPOSITED_AT);
+    assert.equal(result.release?.transactionHash, RELEASE_TX);
+    assert.equal(result.release?.amount, BigInt(100e6));
+  });
+
+  test('is pending while the bridge may still pay out, ignoring mints of other tokens', async () => {
+    const result = await verify(destinationAt(DEPOSITED_AT + 900));
+
+    assert.equal(result.verified, false);
+    assert.equal(result.pendingUntil, RELEASE_DEADLINE);
+  });
+
+  test('fails once the maximum delay has passed without a release', async () => {
+    const { [RELEASE_TX]: _release, ...otherReceipts } = (destinationReceipts as RpcFixture).receipts;
+    const result = await verify(destinationAt(RELEASE_DEADLINE + 600, CHILD_USDC, otherReceipts));
+
+    assert.equal(result.verified, false);
+    assert.equal(result.pendingUntil, undefined);
+    assert.equal(result.details, 'No matching release found on destination chain');
+  });
+
+  test('fails when the token has no child mapping', async () => {
+    const result = await verify(destinationAt(DEPOSITED_AT + 1800, ethers.ZeroAddress));
+
+    assert.equal(result.verified, false);
+    assert.equal(result.details, 'Bridged token has no mapping on destination chain');
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { archiveEvidenceBundle, buildEvidenceBundle, EVIDENCE_BUNDLE_VERSION } from '../evidence-bundle';
+
+const WALLET = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+const ROOT_HASH = `0x${'ab'.repeat(32)}`;
+
+describe('archiveEvidenceBundle', () => {
+  test('uploads the bundle as JSON and returns its root hash', async () => {
+    const uploads: { data: string; filename: string }[] = [];
+    const bundle = buildEvidenceBundle(
+      { requestId: '42', taskId: 7, user: WALLET, verificationType: 'ONCHAIN_TRANSACTION', proofData: {} },
+      {
+        verified: true,
+        sybilScore: 90,
+        proofHash: `0x${'cd'.repeat(32)}`,
+        timestamp: 1_700_000_000_000,
+        details: 'Swap found',
+        evidence: { receipts: [{ gasUsed: BigInt(21000) }] },
+      }
+    );
+
+    const rootHash = await archiveEvidenceBundle(bundle, async (data, filename) => {
+      uploads.push({ data, filename });
+      return { rootHash: ROOT_HASH };
+    });
+
+    assert.equal(rootHash, ROOT_HASH);
+    assert.equal(uploads.length, 1);
+    assert.equal(uploads[0].filename, 'evidence-42.json');
+    const archived = JSON.parse(uploads[0].data);
+    assert.equal(archived.version, EVIDENCE_BUNDLE_VERSION);
+    assert.equal(archived.result.details, 'Swap found');
+    assert.equal(archived.evidence, undefined);
+    // Bigints in receipts are archived as decimal strings
+    assert.deepEqual(archived.receipts, [{ gasUsed: '21000' }]);
+  });
+
+  test('rejects when the upload fails', async () => {
+    const error = new Error('Upload error: no storage nodes');
+    const bundle = buildEvidenceBundle(
+      { requestId: '43', taskId: 7, user: WALLET, verificationType: 'ONCHAIN_TRANSACTION', proofData: {} },
+      { verified: false, sybilScore: 0, proofHash: '0x', timestamp: 0, details: 'No swap found' }
+    );
+
+    await assert.rejects(
+      archiveEvidenceBundle(bundle, () => Promise.reject(error)),
+      error
+    );
+  });
+});
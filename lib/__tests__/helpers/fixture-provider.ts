@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+
+/**
+ * Raw JSON-RPC responses to replay: receipts as returned by eth_getTransactionReceipt,
+ * and eth_call results keyed by `<to>:<calldata>`
+ */
+export interface RpcFixture {
+  chainId: number;
+  // Blocks are synthesized: `latestBlock` was mined at `latestTimestamp`, one every `blockTime` seconds
+  latestBlock: number;
+  latestTimestamp: number;
+  blockTime: number;
+  receipts: Record<string, RawReceipt>;
+  calls?: Record<string, string>;
+}
+
+export interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+  logIndex: string;
+}
+
+export interface RawReceipt {
+  transactionHash: string;
+  blockNumber: string;
+  from: string;
+  to: string | null;
+  status: string;
+  logs: RawLog[];
+  [field: string]: unknown;
+}
+
+const toHex = (value: number) => ethers.toQuantity(value);
+
+/**
+ * A JsonRpcProvider answering from a fixture, so verifiers run against recorded chain data
+ * through the same decoding as in production
+ */
+export class FixtureProvider extends ethers.JsonRpcProvider {
+  readonly calls: Record<string, string>;
+  readonly reverts = new Set<string>();
+
+  constructor(readonly fixture: RpcFixture) {
+    super(undefined, fixture.chainId, { staticNetwork: true, batchMaxCount: 1 });
+    this.calls = { ...fixture.calls };
+  }
+
+  /**
+   * Answer `method(...args)` on `to` with `result`
+   */
+  mockCall(to: string, iface: ethers.Interface, method: string, args: unknown[], result: unknown[]) {
+    const data = iface.encodeFunctionData(method, args);
+    this.calls[`${to.toLowerCase()}:${data}`] = iface.encodeFunctionResult(method, result);
+  }
+
+  /**
+   * Revert `method(...args)` on `to`, as a contract without that function does
+   */
+  mockRevert(to: string, iface: ethers.Interface, method: string, args: unknown[]) {
+    const key = `${to.toLowerCase()}:${iface.encodeFunctionData(method, args)}`;
+    delete this.calls[key];
+    this.reverts.add(key);
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return payloads.map(({ id, method, params }) => {
+      if (method === 'eth_call' && this.reverts.has(this.callKey(params as any[]))) {
+        // JsonRpcProvider narrows the return type, but its caller handles error responses
+        const reverted: ethers.JsonRpcError = { id, error: { code: 3, message: 'execution reverted', data: '0x' } };
+        return reverted as unknown as ethers.JsonRpcResult;
+      }
+      return { id, result: this.answer(method, params as any[]) };
+    });
+  }
+
+  private callKey(params: any[]) {
+    return `${params[0].to.toLowerCase()}:${params[0].data}`;
+  }
+
+  private answer(method: string, params: any[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return toHex(this.fixture.chainId);
+      case 'eth_blockNumber':
+        return toHex(this.fixture.latestBlock);
+      case 'eth_getBlockByNumber':
+        return this.block(params[0] === 'latest' ? this.fixture.latestBlock : Number(params[0]));
+      case 'eth_getTransactionReceipt':
+        return this.receipt(params[0]);
+      case 'eth_getLogs':
+        return this.logs(params[0]);
+      case 'eth_call': {
+        const key = this.callKey(params);
+        if (!(key in this.calls)) throw new Error(`No fixture for eth_call ${key}`);
+        return this.calls[key];
+      }
+      default:
+        throw new Error(`No fixture for ${method}`);
+    }
+  }
+
+  private block(number: number) {
+    if (number > this.fixture.latestBlock) return null;
+    return {
+      hash: ethers.toBeHex(number, 32),
+      parentHash: ethers.toBeHex(Math.max(number - 1, 0), 32),
+      number: toHex(number),
+      timestamp: toHex(this.fixture.latestTimestamp - (this.fixture.latestBlock - number) * this.fixture.blockTime),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: toHex(30_000_000),
+      gasUsed: '0x0',
+      miner: ethers.ZeroAddress,
+      extraData: '0x',
+      baseFeePerGas: '0x0',
+      transactions: [],
+    };
+  }
+
+  private receipt(hash: string) {
+    const receipt = this.fixture.receipts[hash.toLowerCase()];
+    if (!receipt) return null;
+    const block = this.block(Number(receipt.blockNumber))!;
+    return {
+      transactionIndex: '0x0',
+      contractAddress: null,
+      gasUsed: toHex(150_000),
+      cumulativeGasUsed: toHex(150_000),
+      effectiveGasPrice: toHex(10_000_000_000),
+      logsBloom: ethers.zeroPadValue('0x', 256),
+      type: '0x2',
+      ...receipt,
+      blockHash: block.hash,
+      logs: receipt.logs.map(log => ({
+        ...log,
+        blockNumber: receipt.blockNumber,
+        blockHash: block.hash,
+        transactionHash: receipt.transactionHash,
+        transactionIndex: '0x0',
+        removed: false,
+      })),
+    };
+  }
+
+  private logs(filter: {
+    address?: string | string[];
+    topics?: (string | string[] | null)[];
+    fromBlock: string;
+    toBlock: string;
+  }) {
+    const addresses = filter.address === undefined ? undefined : [filter.address].flat().map(a => a.toLowerCase());
+    return Object.values(this.fixture.receipts)
+      .filter(receipt => Number(receipt.blockNumber) >= Number(filter.fromBlock))
+      .filter(receipt => Number(receipt.blockNumber) <= Number(filter.toBlock))
+      .flatMap(receipt => this.receipt(receipt.transactionHash)!.logs)
+      .filter(log => !addresses || addresses.includes(log.address.toLowerCase()))
+      .filter(log =>
+        (filter.topics ?? []).every((topic, i) => {
+          if (topic === null) return true;
+          return [topic].flat().some(t => t.toLowerCase() === log.topics[i]?.toLowerCase());
+        })
+      );
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { verifyLiquidityProvision } from '../liquidity-verifier';
+import { FixtureProvider, RpcFixture } from './helpers/fixture-provider';
+import receipts from './fixtures/liquidity-receipts.json';
+
+const WALLET = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+const V2_PAIR = '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc';
+const MINT_TX = ethers.id('v2-add-liquidity');
+// The mint is 10 blocks behind the fixture's head
+const MINTED_AT = receipts.latestTimestamp - 10 * receipts.blockTime;
+
+const options = { walletAddress: WALLET, chainId: 1, pool: V2_PAIR };
+
+describe('verifyLiquidityProvision', () => {
+  test('is pending, not failed, while the minimum duration is running', async () => {
+    const result = await verifyLiquidityProvision(new FixtureProvider(receipts as RpcFixture), MINT_TX, {
+      ...options,
+      minDurationSeconds: 3600,
+    });
+
+    assert.equal(result.verified, false);
+    assert.equal(result.pendingUntil, MINTED_AT + 3600);
+    assert.equal(result.position?.mintedAt, MINTED_AT);
+  });
+
+  test('verifies a position kept open for the minimum duration', async () => {
+    const result = await verifyLiquidityProvision(new FixtureProvider(receipts as RpcFixture), MINT_TX, {
+      ...options,
+      minDurationSeconds: 60,
+    });
+
+    assert.equal(result.verified, true, result.details);
+    assert.equal(result.pendingUntil, undefined);
+    assert.equal(result.position?.version, 'v2');
+    assert.equal(result.position?.removedLiquidity, BigInt(0));
+  });
+});
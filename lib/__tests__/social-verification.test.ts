@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { verifySocialTask } from '../verification-oracle';
+import { RetryableVerificationError } from '../verifier-registry';
+import { socialProofSchema } from '../social-proof';
+import { saveSocialLink, SocialPlatform } from '../social-linking';
+import { createMemoryKeyValueStore, setKeyValueStore } from '../kv-store';
+import type { RegistryTask } from '../task-registry';
+
+const WALLET = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+const ACCOUNT_ID = '1234567890';
+
+function task(criteria: object): RegistryTask {
+  return {
+    id: 7,
+    advertiser: ethers.ZeroAddress,
+    name: 'Social task',
+    description: '',
+    category: 'SOCIAL',
+    status: 'ACTIVE',
+    rewardAmount: BigInt(0),
+    rewardToken: ethers.ZeroAddress,
+    maxParticipants: 100,
+    currentParticipants: 0,
+    startTime: 0,
+    endTime: 0,
+    verificationCriteria: JSON.stringify(criteria),
+    requiresKYC: false,
+    sybilThreshold: 0,
+  };
+}
+
+function link(platform: SocialPlatform) {
+  return saveSocialLink({
+    walletAddress: WALLET,
+    platform,
+    handle: 'homare',
+    accountId: ACCOUNT_ID,
+    signature: '0x',
+    linkedAt: Date.now(),
+  });
+}
+
+/**
+ * Answer the social verification routes with `status` and `body`, recording what was posted
+ */
+function stubRoutes(status: number, body: unknown) {
+  const posted: { url: string; payload: any }[] = [];
+  mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+    posted.push({ url, payload: JSON.parse(String(init.body)) });
+    return new Response(JSON.stringify(body), { status });
+  });
+  return posted;
+}
+
+describe('verifySocialTask', () => {
+  beforeEach(() => setKeyValueStore(createMemoryKeyValueStore()));
+  afterEach(() => mock.restoreAll());
+
+  test('checks the follow target from the task, not from the proof', async () => {
+    await link('twitter');
+    const posted = stubRoutes(200, { verified: true });
+    // Targets a client adds to its proof are stripped
+    const proof = socialProofSchema.parse({
+      platform: 'twitter',
+      action: 'follow',
+      proof: { targetUsername: 'someone' },
+    });
+
+    const result = await verifySocialTask(
+      task({ type: 'twitter', action: 'follow', targetUsername: 'homare_xyz' }),
+      WALLET,
+      proof
+    );
+
+    assert.equal(result.verified, true, result.details);
+    assert.deepEqual(posted, [
+      {
+        url: '/api/social/twitter/verify',
+        payload: { action: 'follow', proof: { targetUsername: 'homare_xyz', userId: ACCOUNT_ID } },
+      },
+    ]);
+    assert.equal(result.evidence?.criteria?.type, 'twitter');
+  });
+
+  test('checks the guild and roles from the task', async () => {
+    await link('discord');
+    const posted = stubRoutes(200, { verified: true });
+
+    const result = await verifySocialTask(
+      task({ type: 'discord', action: 'role', guildId: '111', roleIds: ['222'] }),
+      WALLET,
+      { platform: 'discord', action: 'role' }
+    );
+
+    assert.equal(result.verified, true, result.details);
+    assert.deepEqual(posted[0].payload, {
+      action: 'role',
+      proof: { guildId: '111', roleIds: ['222'], userId: ACCOUNT_ID },
+    });
+  });
+
+  test('holds GitHub accounts to the thresholds in the task', async () => {
+    await link('github');
+    const posted = stubRoutes(200, { verified: false, details: 'Account is younger than 365 days' });
+
+    const result = await verifySocialTask(task({ type: 'github', action: 'account', minAccountAgeDays: 365 }), WALLET, {
+      platform: 'github',
+      action: 'account',
+    });
+
+    assert.equal(result.verified, false);
+    assert.equal(result.details, 'Account is younger than 365 days');
+    assert.deepEqual(posted[0].payload, { action: 'account', proof: { minAccountAgeDays: 365, userId: ACCOUNT_ID } });
+  });
+
+  test('rejects a proof for a platform the task is not on', async () => {
+    await link('twitter');
+    const posted = stubRoutes(200, { verified: true });
+
+    const result = await verifySocialTask(task({ type: 'discord', action: 'join', guildId: '111' }), WALLET, {
+      platform: 'twitter',
+      action: 'follow',
+    });
+
+    assert.equal(result.verified, false);
+    assert.equal(result.details, 'Task has no twitter verification criteria');
+    assert.deepEqual(posted, []);
+  });
+
+  test('rejects a proof for an action the task does not ask for', async () => {
+    await link('github');
+    const posted = stubRoutes(200, { verified: true });
+
+    const result = await verifySocialTask(
+      task({ type: 'github', action: 'merged_pr', owner: 'homare', repo: 'app' }),
+      WALLET,
+      { platform: 'github', action: 'star' }
+    );
+
+    assert.equal(result.verified, false);
+    assert.equal(result.details, 'Task requires the merged_pr action, not star');
+    assert.deepEqual(posted, []);
+  });
+
+  test('rejects wallets without a linked account', async () => {
+    const posted = stubRoutes(200, { verified: true });
+
+    const result = await verifySocialTask(task({ type: 'discord', action: 'join', guildId: '111' }), WALLET, {
+      platform: 'discord',
+      action: 'join',
+    });
+
+    assert.equal(result.verified, false);
+    assert.equal(result.details, 'Wallet has no linked Discord account');
+    assert.deepEqual(posted, []);
+  });
+
+  test('throws a retryable error instead of rejecting when the link store is unreachable', async () => {
+    const posted = stubRoutes(200, { verified: true });
+    setKeyValueStore({
+      get: () => Promise.reject(new Error('KV node unreachable')),
+      set: () => Promise.reject(new Error('KV node unreachable')),
+    });
+
+    await assert.rejects(
+      verifySocialTask(task({ type: 'discord', action: 'join', guildId: '111' }), WALLET, {
+        platform: 'discord',
+        action: 'join',
+      }),
+      RetryableVerificationError
+    );
+    assert.deepEqual(posted, []);
+  });
+
+  test('throws a retryable error when the platform lookup fails', async () => {
+    await link('github');
+    stubRoutes(502, { verified: false, details: 'GitHub lookup failed' });
+
+    await assert.rejects(
+      verifySocialTask(task({ type: 'github', action: 'star', owner: 'homare', repo: 'app' }), WALLET, {
+        platform: 'github',
+        action: 'star',
+      }),
+      RetryableVerificationError
+    );
+  });
+
+  test('rejects GitHub account criteria without a threshold', async () => {
+    const result = await verifySocialTask(task({ type: 'github', action: 'account' }), WALLET, {
+      platform: 'github',
+      action: 'account',
+    });
+
+    assert.equal(result.verified, false);
+    assert.match(result.details, /minAccountAgeDays: Either minAccountAgeDays or minContributions is required/);
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { verifySwaps } from '../swap-verifier';
+import { parseVerificationCriteria } from '../verification-criteria';
+import { FixtureProvider, RpcFixture } from './helpers/fixture-provider';
+import receipts from './fixtures/swap-receipts.json';
+
+const WALLET = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const V3_POOL = '0x88e6a0c2ddd26feeb64f039a2c41296fcb3f5640';
+const V3_FACTORY = '0x1f98431c8ad98523631ae4a59f267346ea31f984';
+const V2_PAIR = '0xb4e16d0168e52d35cacd2c6185b44281ec28c9dc';
+const V2_FACTORY = '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f';
+// Emits a V3 Swap log and claims to be a USDC/WETH pool, but no factory deployed it
+const FAKE_POOL = '0x00000000000000000000000000000000000d3ad0';
+
+const V3_SWAP_TX = ethers.id('v3-usdc-weth');
+const FAKE_SWAP_TX = ethers.id('fake-pool');
+const V2_SWAP_TX = ethers.id('v2-usdc-weth');
+
+const pool = new ethers.Interface([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+]);
+const factory = new ethers.Interface([
+  'function getPair(address tokenA, address tokenB) view returns (address)',
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+]);
+const erc20 = new ethers.Interface(['function decimals() view returns (uint8)']);
+
+function createProvider() {
+  const provider = new FixtureProvider(receipts as RpcFixture);
+  for (const address of [V3_POOL, V2_PAIR, FAKE_POOL]) {
+    provider.mockCall(address, pool, 'token0', [], [USDC]);
+    provider.mockCall(address, pool, 'token1', [], [WETH]);
+    provider.mockCall(address, pool, 'fee', [], [500]);
+  }
+  provider.mockCall(V3_FACTORY, factory, 'getPool', [USDC, WETH, 500], [V3_POOL]);
+  provider.mockCall(V2_FACTORY, factory, 'getPair', [USDC, WETH], [V2_PAIR]);
+  provider.mockCall(USDC, erc20, 'decimals', [], [6]);
+  return provider;
+}
+
+const window = {
+  walletAddress: WALLET,
+  chainId: 1,
+  startTime: receipts.latestTimestamp - 1000 * receipts.blockTime,
+  endTime: receipts.latestTimestamp,
+};
+
+describe('verifySwaps', () => {
+  test('matches a V3 swap through a configured pool and prices tokenIn', async () => {
+    const result = await verifySwaps(createProvider(), {
+      ...window,
+      pools: [V3_POOL],
+      tokenIn: USDC,
+      minAmountUsd: 100,
+      transactionHashes: [FAKE_SWAP_TX],
+    });
+
+    assert.deepEqual(
+      result.matched.map(swap => swap.transactionHash),
+      [V3_SWAP_TX]
+    );
+    assert.equal(result.matched[0].valueUsd, 2500);
+    assert.deepEqual(result.matched[0].legs[0], {
+      pool: V3_POOL,
+      version: 'v3',
+      logIndex: 12,
+      tokenIn: USDC,
+      tokenOut: WETH,
+      amountIn: BigInt(2500e6),
+      amountOut: ethers.parseEther('1'),
+    });
+    assert.deepEqual(result.rejected, [{ transactionHash: FAKE_SWAP_TX, reason: 'No swap through a configured pool' }]);
+  });
+
+  test('counts pools deployed by a configured factory', async () => {
+    const result = await verifySwaps(createProvider(), {
+      ...window,
+      factories: [V3_FACTORY],
+      minAmountUsd: 100,
+      transactionHashes: [V3_SWAP_TX],
+    });
+
+    assert.deepEqual(
+      result.matched.map(swap => swap.transactionHash),
+      [V3_SWAP_TX]
+    );
+  });
+
+  test('ignores a contract that reports a priced pair but was not deployed by the factory', async () => {
+    const result = await verifySwaps(createProvider(), {
+      ...window,
+      factories: [V3_FACTORY],
+      minAmountUsd: 100,
+      transactionHashes: [FAKE_SWAP_TX],
+    });
+
+    assert.deepEqual(result.matched, []);
+    assert.deepEqual(result.rejected, [{ transactionHash: FAKE_SWAP_TX, reason: 'No swap through a configured pool' }]);
+  });
+
+  test('ignores a Swap log from a contract without the pool interface', async () => {
+    const provider = createProvider();
+    for (const method of ['token0', 'token1', 'fee']) {
+      provider.mockRevert(FAKE_POOL, pool, method, []);
+    }
+
+    const result = await verifySwaps(provider, {
+      ...window,
+      factories: [V3_FACTORY],
+      minAmountUsd: 100,
+      transactionHashes: [FAKE_SWAP_TX, V3_SWAP_TX],
+    });
+
+    assert.deepEqual(
+      result.matched.map(swap => swap.transactionHash),
+      [V3_SWAP_TX]
+    );
+    assert.deepEqual(result.rejected, [{ transactionHash: FAKE_SWAP_TX, reason: 'No swap through a configured pool' }]);
+  });
+
+  test('rejects a V2 swap worth less than minAmountUsd', async () => {
+    const result = await verifySwaps(createProvider(), {
+      ...window,
+      factories: [V2_FACTORY],
+      minAmountUsd: 100,
+      transactionHashes: [V2_SWAP_TX],
+    });
+
+    assert.deepEqual(result.matched, []);
+    assert.deepEqual(result.rejected, [
+      { transactionHash: V2_SWAP_TX, reason: 'Swap value $50.00 below minimum $100' },
+    ]);
+  });
+
+  test('rejects swaps outside the task window', async () => {
+    const result = await verifySwaps(createProvider(), {
+      ...window,
+      pools: [V3_POOL],
+      startTime: receipts.latestTimestamp - 10 * receipts.blockTime,
+    });
+
+    assert.deepEqual(result.matched, []);
+  });
+});
+
+describe('swap criteria', () => {
+  test('require pools or factories', () => {
+    assert.throws(
+      () => parseVerificationCriteria(JSON.stringify({ type: 'swap', minAmountUsd: 10 })),
+      /pools: Either pools or factories is required/
+    );
+    assert.equal(parseVerificationCriteria(JSON.stringify({ type: 'swap', factories: [V3_FACTORY] })).type, 'swap');
+  });
+});
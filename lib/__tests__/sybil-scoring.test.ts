@@ -0,0 +1,146 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getCampaignStreamId, scoreSybilRisk, SybilScoringSources } from '../sybil-scoring';
+import { advancedSybilDetection } from '../sybil-detection';
+import { createMemoryKeyValueStore, setKeyValueStore } from '../kv-store';
+import { DEFAULT_SYBIL_RULES, SybilRuleSet } from '../sybil-rules';
+import type { DeviceFingerprint } from '../device-fingerprint';
+import type { WalletActivity } from '../transaction-history';
+
+const WALLET = '0x8ba1f109551bd432803012645ac136ddd64dba72';
+const OTHER_WALLET = '0x2546bcd3c84621e976d8185a91a922ae77ecec30';
+
+const fingerprint: DeviceFingerprint = {
+  userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36',
+  screenResolution: '2560x1440',
+  timezone: 'Asia/Tokyo',
+  language: 'ja-JP',
+  platform: 'MacIntel',
+  cookieEnabled: true,
+  doNotTrack: 'unspecified',
+  hardwareConcurrency: 8,
+  maxTouchPoints: 0,
+  colorDepth: 24,
+  pixelRatio: 2,
+};
+
+const ruleSet: SybilRuleSet = {
+  ...DEFAULT_SYBIL_RULES,
+  rules: [
+    { id: 'new-wallet', when: { field: 'wallet.transactionCount', op: 'lt', value: 5 }, weight: -10, factor: 'New wallet' },
+    {
+      id: 'shared-device',
+      when: { field: 'wallet.otherWalletsOnDevice', op: 'gte', value: 1 },
+      weight: -50,
+      factor: 'Device shared with another wallet',
+    },
+  ],
+};
+
+function activity(walletAddress: string, transactionCount: number): WalletActivity {
+  return {
+    walletAddress,
+    transactionCount,
+    recentTransactions: [],
+    firstSeenAt: Date.now() - 365 * 24 * 60 * 60 * 1000,
+    fundingSources: [],
+    fundingTransfers: [],
+    counterparties: [],
+    chains: [],
+  };
+}
+
+/**
+ * Sources answering from fixed data, scored by the real detection against an in-memory KV store
+ */
+function stubSources(overrides: Partial<SybilScoringSources> = {}): SybilScoringSources {
+  return {
+    getFingerprintBundle: async (taskId, walletAddress) => ({
+      bundle: { version: 1, taskId, walletAddress, fingerprint, issuedAt: Date.now() },
+      signature: '0x',
+      receivedAt: Date.now(),
+    }),
+    getWalletActivity: async walletAddress => activity(walletAddress, 20),
+    getSocialConnections: async () => [],
+    getCompletionTime: async () => undefined,
+    getRules: async () => ruleSet,
+    detect: advancedSybilDetection,
+    ...overrides,
+  };
+}
+
+describe('scoreSybilRisk', () => {
+  beforeEach(() => setKeyValueStore(createMemoryKeyValueStore()));
+
+  test('scores an attested wallet with the campaign rules', async () => {
+    const score = await scoreSybilRisk({ taskId: 1, walletAddress: WALLET }, stubSources());
+
+    assert.equal(score.score, 100);
+    assert.equal(score.riskLevel, 'LOW');
+    assert.equal(score.attested, true);
+    assert.equal(score.streamId, getCampaignStreamId(1));
+  });
+
+  test('applies wallet rules to the looked-up activity', async () => {
+    const score = await scoreSybilRisk(
+      { taskId: 1, walletAddress: WALLET },
+      stubSources({ getWalletActivity: async walletAddress => activity(walletAddress, 1) })
+    );
+
+    assert.equal(score.score, 90);
+    assert.deepEqual(score.factors, ['New wallet']);
+  });
+
+  test('penalizes a second wallet from the same device in the same campaign only', async () => {
+    const sources = stubSources();
+    await scoreSybilRisk({ taskId: 1, walletAddress: WALLET }, sources);
+
+    const second = await scoreSybilRisk({ taskId: 1, walletAddress: OTHER_WALLET }, sources);
+    assert.equal(second.score, 50);
+    assert.equal(second.riskLevel, 'HIGH');
+    assert.deepEqual(
+      second.nearDuplicates?.map(duplicate => duplicate.wallet),
+      [WALLET]
+    );
+
+    const otherCampaign = await scoreSybilRisk({ taskId: 2, walletAddress: OTHER_WALLET }, sources);
+    assert.equal(otherCampaign.score, 100);
+  });
+
+  test('scores 0 without a device attestation and looks nothing else up', async () => {
+    const score = await scoreSybilRisk(
+      { taskId: 1, walletAddress: WALLET },
+      stubSources({
+        getFingerprintBundle: async () => undefined,
+        getWalletActivity: () => assert.fail('wallet activity looked up'),
+      })
+    );
+
+    assert.equal(score.score, 0);
+    assert.equal(score.attested, false);
+  });
+
+  test('rejects when a lookup fails instead of scoring partial data', async () => {
+    const error = new Error('missing trie node');
+    await assert.rejects(
+      scoreSybilRisk(
+        { taskId: 1, walletAddress: WALLET },
+        stubSources({ getWalletActivity: () => Promise.reject(error) })
+      ),
+      error
+    );
+  });
+
+  test('rejects without overwriting campaign state when the KV store cannot be read', async () => {
+    const writes: string[] = [];
+    setKeyValueStore({
+      get: () => Promise.reject(new Error('KV node unreachable')),
+      set: async (_streamId, key) => {
+        writes.push(key);
+      },
+    });
+
+    await assert.rejects(scoreSybilRisk({ taskId: 1, walletAddress: WALLET }, stubSources()), /KV node unreachable/);
+    assert.deepEqual(writes, []);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { analyzeTimingPatterns, buildTimingProfile, compareTimingProfiles } from '../timing-analysis';
+import { setKeyValueStore } from '../kv-store';
+import type { WalletActivity, WalletTransaction } from '../transaction-history';
+
+const OG_CHAIN = 16601;
+const MAINNET = 1;
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 1);
+
+function wallet(n: number) {
+  return ethers.zeroPadValue(ethers.toBeHex(n), 20);
+}
+
+/**
+ * A wallet that sent one transaction at each of `sends` ([chainId, ms after START, gas price in gwei])
+ */
+function profileOf(walletAddress: string, sends: [number, number, string][], completionTime?: number) {
+  const recentTransactions: WalletTransaction[] = sends.map(([chainId, offset, gwei], nonce) => ({
+    chainId,
+    hash: ethers.id(`${walletAddress}:${nonce}`),
+    blockNumber: nonce,
+    timestamp: START + offset,
+    from: walletAddress,
+    to: null,
+    value: BigInt(0),
+    nonce,
+    gasPrice: ethers.parseUnits(gwei, 'gwei'),
+  }));
+  const activity: WalletActivity = {
+    walletAddress,
+    transactionCount: sends.length,
+    recentTransactions,
+    fundingSources: [],
+    fundingTransfers: [],
+    counterparties: [],
+    chains: [],
+  };
+  return buildTimingProfile(walletAddress, activity, completionTime);
+}
+
+describe('compareTimingProfiles', () => {
+  test('does not match unrelated new wallets on a fixed-gas-price chain', () => {
+    // Both sent nonces 0, 1 and 2 at the chain's only gas price, hours apart from each other
+    const first = profileOf(wallet(1), [
+      [OG_CHAIN, 0, '4'],
+      [OG_CHAIN, 2 * HOUR, '4'],
+      [OG_CHAIN, 7 * HOUR, '4'],
+    ]);
+    const second = profileOf(wallet(2), [
+      [OG_CHAIN, 30 * HOUR, '4'],
+      [OG_CHAIN, 31 * HOUR, '4'],
+      [OG_CHAIN, 40 * HOUR, '4'],
+    ]);
+
+    const result = compareTimingProfiles(second, [first]);
+
+    assert.deepEqual(result.lookalikes, []);
+    assert.deepEqual(result.weights, {});
+  });
+
+  test('ignores gas prices on chains where every participant paid the same', () => {
+    const sends = (offset: number): [number, number, string][] => [
+      [OG_CHAIN, offset, '4'],
+      [OG_CHAIN, offset + 5000, '4'],
+      [OG_CHAIN, offset + 10_000, '4'],
+    ];
+    // Sent in lockstep, so they match on interleaving; their identical gas prices must not count
+    const result = compareTimingProfiles(profileOf(wallet(2), sends(1000)), [profileOf(wallet(1), sends(0))], {
+      threshold: 0.25,
+    });
+
+    assert.deepEqual(result.lookalikes[0]?.dimensions, ['interleaving']);
+  });
+
+  test('matches scripted wallets sending in lockstep at a fixed price on a variable-price chain', () => {
+    const bot = (n: number) =>
+      profileOf(wallet(n), [
+        [MAINNET, n * 1000, '1.5'],
+        [MAINNET, 3 * HOUR + n * 1000, '1.5'],
+        [MAINNET, 9 * HOUR + n * 1000, '1.5'],
+        [MAINNET, 10 * HOUR + n * 1000, '1.5'],
+      ]);
+    const human = profileOf(wallet(9), [
+      [MAINNET, 50 * HOUR, '12'],
+      [MAINNET, 60 * HOUR, '31'],
+      [MAINNET, 80 * HOUR, '8'],
+    ]);
+
+    const result = compareTimingProfiles(bot(2), [bot(1), human]);
+
+    assert.deepEqual(
+      result.lookalikes.map(match => match.wallet),
+      [wallet(1)]
+    );
+    // The scripted cadence gives the bots away too
+    assert.deepEqual(result.lookalikes[0].dimensions, ['cadence', 'gas', 'interleaving']);
+    assert.deepEqual(Object.keys(result.weights), ['cadence', 'gas', 'interleaving']);
+  });
+});
+
+describe('analyzeTimingPatterns', () => {
+  test('rejects without overwriting stored profiles when they cannot be read', async () => {
+    const writes: string[] = [];
+    setKeyValueStore({
+      get: () => Promise.reject(new Error('KV node unreachable')),
+      set: async (_streamId, key) => {
+        writes.push(key);
+      },
+    });
+    const activity: WalletActivity = {
+      walletAddress: wallet(1),
+      transactionCount: 0,
+      recentTransactions: [],
+      fundingSources: [],
+      fundingTransfers: [],
+      counterparties: [],
+      chains: [],
+    };
+
+    await assert.rejects(analyzeTimingPatterns(wallet(1), activity, undefined, 'stream'), /KV node unreachable/);
+    assert.deepEqual(writes, []);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InvalidAmountError, parseTokenAmount } from '../transaction-verification';
+import { parseVerificationCriteria } from '../verification-criteria';
+
+describe('parseTokenAmount', () => {
+  test('converts decimal amounts to base units', () => {
+    assert.equal(parseTokenAmount('1.5', 6), BigInt(1_500_000));
+    assert.equal(parseTokenAmount(2, 18), BigInt('2000000000000000000'));
+  });
+
+  test('rejects amounts finer than the token decimals', () => {
+    assert.throws(() => parseTokenAmount('0.0000001', 6), InvalidAmountError);
+  });
+});
+
+describe('transfer criteria', () => {
+  const transfer = (minAmount: unknown) => JSON.stringify({ type: 'transfer', minAmount });
+
+  test('keep minAmount as a decimal string', () => {
+    const criteria = parseVerificationCriteria(transfer(0.25));
+    assert.equal(criteria.type === 'transfer' && criteria.minAmount, '0.25');
+  });
+
+  test('reject amounts that are not plain decimals, including numbers written with exponents', () => {
+    for (const minAmount of ['1e18', '-1', '1.', 1e-7, 1e21]) {
+      assert.throws(() => parseVerificationCriteria(transfer(minAmount)), /minAmount: Invalid token amount/);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTwitterClient, HttpClient, TwitterApiError } from '../twitter-client';
+
+interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+/**
+ * An HttpClient answering from `respond`, recording each requested URL
+ */
+function mockHttp(respond: (url: URL, call: number) => MockResponse) {
+  const requests: URL[] = [];
+  const httpClient: HttpClient = async url => {
+    const parsed = new URL(url);
+    requests.push(parsed);
+    const { status = 200, headers = {}, body = {} } = respond(parsed, requests.length - 1);
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+      json: async () => body,
+    };
+  };
+  return { httpClient, requests };
+}
+
+const users = (...ids: string[]) => ids.map(id => ({ id, username: `user${id}` }));
+
+describe('createTwitterClient', () => {
+  test('follows pagination tokens until the user is found', async () => {
+    const { httpClient, requests } = mockHttp((_url, call) =>
+      call === 0
+        ? { body: { data: users('1', '2'), meta: { next_token: 'page-2' } } }
+        : { body: { data: users('3', '42'), meta: {} } }
+    );
+    const client = createTwitterClient({ bearerToken: 'token', httpClient });
+
+    assert.equal(await client.isFollowing('7', '42'), true);
+    assert.equal(requests.length, 2);
+    assert.equal(requests[0].pathname, '/2/users/7/following');
+    assert.equal(requests[0].searchParams.get('pagination_token'), null);
+    assert.equal(requests[1].searchParams.get('pagination_token'), 'page-2');
+  });
+
+  test('stops when the last page has no next token', async () => {
+    const { httpClient, requests } = mockHttp(() => ({ body: { data: users('1'), meta: { result_count: 1 } } }));
+    const client = createTwitterClient({ bearerToken: 'token', httpClient });
+
+    assert.equal(await client.hasLiked('42', '1000'), false);
+    assert.equal(requests.length, 1);
+  });
+
+  test('gives up after maxPages pages', async () => {
+    const { httpClient, requests } = mockHttp((_url, call) => ({
+      body: { data: users(String(call)), meta: { next_token: `page-${call + 1}` } },
+    }));
+    const client = createTwitterClient({ bearerToken: 'token', httpClient, maxPages: 3 });
+
+    assert.equal(await client.hasRetweeted('42', '1000'), false);
+    assert.equal(requests.length, 3);
+  });
+
+  test('waits for x-rate-limit-reset on 429 and retries', async () => {
+    const reset = Math.ceil(Date.now() / 1000);
+    const { httpClient, requests } = mockHttp((_url, call) =>
+      call === 0
+        ? { status: 429, headers: { 'x-rate-limit-reset': String(reset) } }
+        : { body: { data: { id: '42', username: 'homare' } } }
+    );
+    const client = createTwitterClient({ bearerToken: 'token', httpClient });
+
+    const startedAt = Date.now();
+    const user = await client.getUserById('42');
+
+    assert.equal(user?.username, 'homare');
+    assert.equal(requests.length, 2);
+    // The reset time plus a one-second margin
+    assert.ok(Date.now() - startedAt >= 900);
+  });
+
+  test('fails fast when the rate-limit reset is further away than maxRateLimitWaitMs', async () => {
+    const reset = Math.ceil(Date.now() / 1000) + 15 * 60;
+    const { httpClient, requests } = mockHttp(() => ({
+      status: 429,
+      headers: { 'x-rate-limit-reset': String(reset) },
+    }));
+    const client = createTwitterClient({ bearerToken: 'token', httpClient, maxRateLimitWaitMs: 60_000 });
+
+    await assert.rejects(
+      client.getTweet('1000'),
+      (error: unknown) => error instanceof TwitterApiError && error.status === 429
+    );
+    assert.equal(requests.length, 1);
+  });
+
+  test('returns undefined for unknown users instead of throwing', async () => {
+    const { httpClient } = mockHttp(() => ({ status: 404 }));
+    const client = createTwitterClient({ bearerToken: 'token', httpClient });
+
+    assert.equal(await client.getUserByUsername('@nobody'), undefined);
+  });
+});
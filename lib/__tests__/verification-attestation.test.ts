@@ -0,0 +1,77 @@
+import { beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import {
+  buildVerificationAttestation,
+  getVerificationAttestation,
+  saveVerificationAttestation,
+  SignedVerificationAttestation,
+  signVerificationAttestation,
+  verifyVerificationAttestation,
+} from '../verification-attestation';
+import { createMemoryKeyValueStore, setKeyValueStore } from '../kv-store';
+
+const oracle = ethers.Wallet.createRandom();
+const domain = { chainId: 16600, verifyingContract: ethers.getAddress(`0x${'11'.repeat(20)}`) };
+
+function sign() {
+  const attestation = buildVerificationAttestation(
+    { requestId: BigInt(42), taskId: 7, user: ethers.Wallet.createRandom().address.toLowerCase(), verificationType: 0 },
+    { verified: true, sybilScore: 0, proofHash: ethers.id('swap'), timestamp: Date.now(), details: 'Swap found' },
+    80,
+    `0x${'ab'.repeat(32)}`
+  );
+  return signVerificationAttestation(oracle, attestation, domain);
+}
+
+describe('verifyVerificationAttestation', () => {
+  beforeEach(() => setKeyValueStore(createMemoryKeyValueStore()));
+
+  test('accepts an attestation after a JSON round trip', async () => {
+    const signed: SignedVerificationAttestation = JSON.parse(JSON.stringify(await sign()));
+
+    assert.deepEqual(verifyVerificationAttestation(signed), { valid: true, details: 'Attestation verified' });
+  });
+
+  test('accepts an attestation read back from the store', async () => {
+    const signed = await sign();
+    await saveVerificationAttestation(signed);
+
+    const stored = await getVerificationAttestation(domain, BigInt(42));
+
+    assert.ok(stored);
+    assert.equal(verifyVerificationAttestation(stored).valid, true);
+    assert.equal(await getVerificationAttestation(domain, '43'), undefined);
+  });
+
+  test('rejects an attestation whose result was changed after signing', async () => {
+    const signed = await sign();
+    const tampered = { ...signed, attestation: { ...signed.attestation, sybilScore: 100 } };
+
+    assert.equal(verifyVerificationAttestation(tampered).details, 'Proof hash does not match the attestation');
+  });
+
+  test('checks the attestation against the result the gateway recorded', async () => {
+    const signed = await sign();
+    const onChain = { verified: true, sybilScore: BigInt(80), proofHash: signed.proofHash, verifier: oracle.address };
+
+    assert.equal(verifyVerificationAttestation(signed, onChain).valid, true);
+    assert.equal(
+      verifyVerificationAttestation(signed, { ...onChain, sybilScore: BigInt(20) }).details,
+      'Attested result does not match the gateway'
+    );
+    assert.equal(
+      verifyVerificationAttestation(signed, { ...onChain, verifier: ethers.Wallet.createRandom().address }).details,
+      'Attestation signer did not complete the request'
+    );
+  });
+
+  test('propagates store failures instead of reporting the attestation missing', async () => {
+    setKeyValueStore({
+      get: () => Promise.reject(new Error('KV node unreachable')),
+      set: () => Promise.reject(new Error('KV node unreachable')),
+    });
+
+    await assert.rejects(getVerificationAttestation(domain, '42'), /KV node unreachable/);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VERIFICATION_TYPES } from '../verification-oracle';
+import { getVerifier, supportsVerificationType } from '../verifier-registry';
+
+describe('built-in verifiers', () => {
+  test('handle every gateway verification type but CUSTOM_ORACLE', () => {
+    // CUSTOM_ORACLE verifiers are advertiser modules loaded by the oracle worker
+    for (const type of VERIFICATION_TYPES.filter(type => type !== 'CUSTOM_ORACLE')) {
+      assert.ok(supportsVerificationType(type), `No verifier for ${type}`);
+    }
+  });
+
+  test('route each platform verification type to its platform', () => {
+    assert.equal(getVerifier('OFFCHAIN_DISCORD')?.id, 'discord');
+    assert.equal(getVerifier('OFFCHAIN_GITHUB')?.id, 'github');
+    assert.equal(getVerifier('OFFCHAIN_DISCORD', 'discord')?.id, 'discord');
+    assert.equal(getVerifier('OFFCHAIN_DISCORD', 'github'), undefined);
+    assert.equal(getVerifier('OFFCHAIN_GITHUB', 'twitter'), undefined);
+  });
+
+  test('route OFFCHAIN_SOCIAL by the proof platform', () => {
+    for (const platform of ['twitter', 'discord', 'github']) {
+      assert.equal(getVerifier('OFFCHAIN_SOCIAL', platform)?.id, platform);
+    }
+    assert.equal(getVerifier('OFFCHAIN_SOCIAL'), undefined);
+  });
+
+  test('accept platform-less proofs under the platform verification types', () => {
+    assert.deepEqual(getVerifier('OFFCHAIN_DISCORD')?.proofSchema.parse({ action: 'join' }), {
+      platform: 'discord',
+      action: 'join',
+    });
+    assert.deepEqual(getVerifier('OFFCHAIN_GITHUB')?.proofSchema.parse({ action: 'star' }), {
+      platform: 'github',
+      action: 'star',
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { downloadJson, uploadStream } from './zg-storage';
+import {
+  fetchCompletion,
+  fetchTask,
+  RegistryAppeal,
+  RegistryCompletion,
+  RegistryTask,
+  TaskCategory,
+} from './task-registry';
+import { parseProofData, VerificationResult, VerificationType, verifyTask } from './verification-oracle';
+import {
+  APPEAL_REVIEW_ACTIONS,
+  APPEAL_VERSION,
+  buildAppealMessage,
+  buildAppealReviewMessage,
+  SignedAppealRequest,
+  SignedAppealReview,
+} from './appeals';
+
+// Requests must be submitted shortly after they are signed
+const MAX_REQUEST_AGE_MS = 10 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+const address = z.string().refine(value => ethers.isAddress(value), 'Invalid address');
+const signature = z.string().refine(value => ethers.isHexString(value, 65), 'Invalid signature');
+
+export const signedAppealRequestSchema = z.object({
+  appeal: z.object({
+    version: z.literal(APPEAL_VERSION),
+    taskId: z.number().int().positive(),
+    walletAddress: address,
+    statement: z.string().min(1).max(2000),
+    attachments: z.array(z.string().url().max(512)).max(10),
+    proofData: z.unknown().optional(),
+    issuedAt: z.number().int(),
+  }),
+  signature,
+});
+
+export const signedAppealReviewSchema = z.object({
+  review: z.object({
+    appealId: z.number().int().positive(),
+    action: z.enum(APPEAL_REVIEW_ACTIONS),
+    reason: z.string().min(1).max(2000),
+    sybilScore: z.number().int().min(0).max(100).optional(),
+    issuedAt: z.number().int(),
+  }),
+  reviewer: address,
+  signature,
+});
+
+/**
+ * A reviewer's ruling on an appeal, archived to 0G Storage and referenced by
+ * `TaskRegistry.resolveAppeal`
+ */
+export interface AppealDecision {
+  version: number;
+  appealId: number;
+  taskId: number;
+  user: string;
+  // Root hash of the user's appeal request
+  evidenceRoot: string;
+  review: SignedAppealReview;
+  approved: boolean;
+  sybilScore: number;
+  // Verification re-run with the appeal's proof, for `rerun` reviews
+  rerun?: VerificationResult;
+  // Why the appeal was rejected regardless of the review, when its request did not check out
+  details?: string;
+  decidedAt: number;
+}
+
+/**
+ * Everything a review reads. The defaults hit the chain, 0G Storage and the verifiers.
+ */
+export interface AppealReviewSources {
+  fetchTask(taskId: number): Promise<RegistryTask>;
+  fetchCompletion(taskId: number, walletAddress: string): Promise<RegistryCompletion | undefined>;
+  // The archived request as downloaded; `decideAppeal` validates it
+  fetchAppealRequest(evidenceRoot: string): Promise<unknown>;
+  verify: typeof verifyTask;
+}
+
+export const defaultAppealReviewSources: AppealReviewSources = {
+  fetchTask: taskId => fetchTask(taskId),
+  fetchCompletion: (taskId, walletAddress) => fetchCompletion(taskId, walletAddress),
+  fetchAppealRequest: evidenceRoot => downloadJson<unknown>(evidenceRoot),
+  verify: request => verifyTask(request),
+};
+
+function isFresh(issuedAt: number, now: number) {
+  return issuedAt <= now + MAX_CLOCK_SKEW_MS && now - issuedAt <= MAX_REQUEST_AGE_MS;
+}
+
+/**
+ * Check an appeal request is fresh and signed by the wallet it names
+ */
+export function verifyAppealRequest(signed: SignedAppealRequest, now = Date.now()): { valid: boolean; details: string } {
+  if (!isFresh(signed.appeal.issuedAt, now)) {
+    return { valid: false, details: 'Appeal request expired' };
+  }
+  return verifyAppealRequestSignature(signed);
+}
+
+/**
+ * Check an archived appeal request is signed by the wallet it names and is for the appeal
+ * opened on-chain. Archived requests are checked when reviewed, long after they were signed,
+ * so their age is not.
+ */
+export function verifyArchivedAppealRequest(
+  signed: SignedAppealRequest,
+  appeal: RegistryAppeal
+): { valid: boolean; details: string } {
+  if (signed.appeal.taskId !== appeal.taskId) {
+    return { valid: false, details: 'Appeal request is for another task' };
+  }
+  if (signed.appeal.walletAddress.toLowerCase() !== appeal.user.toLowerCase()) {
+    return { valid: false, details: 'Appeal request is for another wallet' };
+  }
+  return verifyAppealRequestSignature(signed);
+}
+
+function verifyAppealRequestSignature(signed: SignedAppealRequest): { valid: boolean; details: string } {
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(buildAppealMessage(signed.appeal), signed.signature);
+  } catch {
+    return { valid: false, details: 'Invalid signature' };
+  }
+  if (signer.toLowerCase() !== signed.appeal.walletAddress.toLowerCase()) {
+    return { valid: false, details: 'Appeal not signed by wallet' };
+  }
+  return { valid: true, details: 'Appeal request verified' };
+}
+
+/**
+ * Check a review is fresh and signed by the reviewer it names. Whether the reviewer may
+ * resolve the appeal is for the TaskRegistry to say (`canReviewAppeal`).
+ */
+export function verifyAppealReview(signed: SignedAppealReview, now = Date.now()): { valid: boolean; details: string } {
+  if (!isFresh(signed.review.issuedAt, now)) {
+    return { valid: false, details: 'Review expired' };
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(buildAppealReviewMessage(signed.review), signed.signature);
+  } catch {
+    return { valid: false, details: 'Invalid signature' };
+  }
+  if (signer.toLowerCase() !== signed.reviewer.toLowerCase()) {
+    return { valid: false, details: 'Review not signed by reviewer' };
+  }
+  return { valid: true, details: 'Review verified' };
+}
+
+/**
+ * Whether the oracle rejected a completion: it failed verification or scored below the
+ * task's sybil threshold. Completions the oracle has not ruled on yet are not rejected.
+ */
+export function isRejectedCompletion(task: RegistryTask, completion: RegistryCompletion | undefined): boolean {
+  if (!completion || completion.verifiedAt === undefined) return false;
+  return !completion.verified || completion.sybilScore < task.sybilThreshold;
+}
+
+// Mirrors TaskRegistry._verificationTypeFor
+function verificationTypeFor(category: TaskCategory): VerificationType {
+  switch (category) {
+    case 'SOCIAL':
+      return 'OFFCHAIN_SOCIAL';
+    case 'CUSTOM':
+      return 'CUSTOM_ORACLE';
+    default:
+      return 'ONCHAIN_TRANSACTION';
+  }
+}
+
+function toJson(value: unknown): string {
+  // Verification evidence can carry bigints
+  return JSON.stringify(value, (_key, item) => (typeof item === 'bigint' ? item.toString() : item));
+}
+
+/**
+ * Archive a verified appeal request and return the root hash to open the appeal with
+ */
+export async function archiveAppealRequest(signed: SignedAppealRequest): Promise<string> {
+  const { appeal } = signed;
+  const { rootHash } = await uploadStream(
+    toJson(signed),
+    `appeal-${appeal.taskId}-${appeal.walletAddress.toLowerCase()}.json`
+  );
+  return rootHash;
+}
+
+/**
+ * Rule on a pending appeal. `rerun` verifies the completion again with the appeal's proof
+ * (or the original one) and approves it if it passes the task's sybil threshold;
+ * `approve` and `reject` override the oracle. Appeals whose archived request the wallet did
+ * not sign for this task are rejected whatever the review.
+ */
+export async function decideAppeal(
+  appeal: RegistryAppeal,
+  signed: SignedAppealReview,
+  sources: AppealReviewSources = defaultAppealReviewSources
+): Promise<AppealDecision> {
+  const { review } = signed;
+  const [task, completion, archived] = await Promise.all([
+    sources.fetchTask(appeal.taskId),
+    sources.fetchCompletion(appeal.taskId, appeal.user),
+    sources.fetchAppealRequest(appeal.evidenceRoot),
+  ]);
+  if (!completion) {
+    throw new Error(`${appeal.user} has not completed task ${appeal.taskId}`);
+  }
+
+  const decision = {
+    version: APPEAL_VERSION,
+    appealId: appeal.id,
+    taskId: appeal.taskId,
+    user: appeal.user,
+    evidenceRoot: appeal.evidenceRoot,
+    review: signed,
+    decidedAt: Date.now(),
+  };
+
+  // The evidence root is whatever the wallet opened the appeal with, so the request behind it
+  // must be one the wallet signed for this appeal
+  const parsed = signedAppealRequestSchema.safeParse(archived);
+  const check = parsed.success
+    ? verifyArchivedAppealRequest(parsed.data, appeal)
+    : { valid: false, details: 'Invalid appeal request' };
+  if (!parsed.success || !check.valid) {
+    return { ...decision, approved: false, sybilScore: completion.sybilScore, details: check.details };
+  }
+  const request = parsed.data.appeal;
+
+  if (review.action !== 'rerun') {
+    return {
+      ...decision,
+      approved: review.action === 'approve',
+      sybilScore: review.sybilScore ?? completion.sybilScore,
+    };
+  }
+
+  const rerun = await sources.verify({
+    taskId: appeal.taskId,
+    userId: appeal.user,
+    walletAddress: appeal.user,
+    proofData: request.proofData ?? parseProofData(completion.proofData),
+    verificationType: verificationTypeFor(task.category),
+  });
+  if (rerun.pendingUntil !== undefined) {
+    throw new Error(`Verification is pending until ${new Date(rerun.pendingUntil).toISOString()}`);
+  }
+  const sybilScore = Number.isFinite(rerun.sybilScore) ? Math.max(0, Math.min(100, Math.round(rerun.sybilScore))) : 0;
+  return {
+    ...decision,
+    approved: rerun.verified && sybilScore >= task.sybilThreshold,
+    sybilScore,
+    rerun,
+  };
+}
+
+/**
+ * Archive a decision and return the root hash to resolve the appeal with
+ */
+export async function archiveAppealDecision(decision: AppealDecision): Promise<string> {
+  const { rootHash } = await uploadStream(toJson(decision), `appeal-decision-${decision.appealId}.json`);
+  return rootHash;
+}
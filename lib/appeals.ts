@@ -0,0 +1,71 @@
+import { ethers } from 'ethers';
+
+export const APPEAL_VERSION = 1;
+
+/**
+ * What a user submits to appeal a rejected task completion. It is archived to 0G Storage,
+ * and the appeal opened on-chain references its root hash.
+ */
+export interface AppealRequest {
+  version: number;
+  taskId: number;
+  walletAddress: string;
+  // Why the completion should have passed
+  statement: string;
+  // Links to supporting material (posts, screenshots, explorer pages)
+  attachments: string[];
+  // Replacement proof to re-run verification with, in the task's proof format
+  proofData?: unknown;
+  issuedAt: number;
+}
+
+export interface SignedAppealRequest {
+  appeal: AppealRequest;
+  // Wallet signature over `buildAppealMessage(appeal)`
+  signature: string;
+}
+
+// Re-run verification with the appeal's proof, or override the oracle either way
+export const APPEAL_REVIEW_ACTIONS = ['rerun', 'approve', 'reject'] as const;
+export type AppealReviewAction = (typeof APPEAL_REVIEW_ACTIONS)[number];
+
+export interface AppealReview {
+  appealId: number;
+  action: AppealReviewAction;
+  reason: string;
+  // Score recorded with an approve or reject; defaults to the completion's current score
+  sybilScore?: number;
+  issuedAt: number;
+}
+
+export interface SignedAppealReview {
+  review: AppealReview;
+  reviewer: string;
+  // Reviewer signature over `buildAppealReviewMessage(review)`
+  signature: string;
+}
+
+export function buildAppealMessage(appeal: AppealRequest): string {
+  const evidence = { statement: appeal.statement, attachments: appeal.attachments, proofData: appeal.proofData };
+  return [
+    'Homare completion appeal',
+    '',
+    `Task: ${appeal.taskId}`,
+    `Wallet: ${appeal.walletAddress.toLowerCase()}`,
+    `Evidence: ${ethers.id(JSON.stringify(evidence))}`,
+    `Version: ${appeal.version}`,
+    `Issued At: ${new Date(appeal.issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+export function buildAppealReviewMessage(review: AppealReview): string {
+  return [
+    'Homare appeal review',
+    '',
+    `Appeal: ${review.appealId}`,
+    `Action: ${review.action}`,
+    `Sybil score: ${review.sybilScore ?? 'unchanged'}`,
+    `Reason: ${ethers.id(review.reason)}`,
+    `Issued At: ${new Date(review.issuedAt).toISOString()}`,
+  ].join('\n');
+}
@@ -0,0 +1,327 @@
+import { ethers } from 'ethers';
+import { arbitrum, base, mainnet, optimism, polygon } from 'wagmi/chains';
+import { getBlockNumberAtTimestamp } from './chains';
+
+// Keep eth_getLogs ranges within common RPC provider limits
+const MAX_LOG_BLOCK_RANGE = 5000;
+
+/**
+ * Value moved by a bridge, as seen on one side of the bridge
+ */
+export interface BridgeTransfer {
+  sender: string;
+  recipient: string;
+  amount: bigint;
+  // Source-chain token (zero address for native currency), when the event carries it
+  token?: string;
+}
+
+/**
+ * A supported bridge path: the deposit event on the source chain and the
+ * mint/release event that pays out on the destination chain
+ */
+export interface BridgeRoute {
+  id: string;
+  sourceChainId: number;
+  destinationChainId: number;
+  depositContracts: string[];
+  depositEvent: string;
+  parseDeposit: (args: ethers.Result) => BridgeTransfer;
+  // Emitters of the release event, or a lookup of them on the destination chain (e.g. the child token mapped
+  // to the deposited token)
+  releaseContracts: string[] | ((deposit: BridgeTransfer, destination: ethers.Provider) => Promise<string[]>);
+  releaseEvent: string;
+  // Positional event arguments used as topic filters when scanning for the release
+  releaseFilter: (deposit: BridgeTransfer) => unknown[];
+  parseRelease: (args: ethers.Result) => BridgeTransfer;
+  // Longest time the bridge takes to pay out after the deposit
+  maxDelaySeconds: number;
+}
+
+const OP_STACK_L2_BRIDGE = '0x4200000000000000000000000000000000000010';
+
+// Polygon PoS ChildChainManager, which maps root tokens to the child tokens it mints
+const POLYGON_CHILD_CHAIN_MANAGER = '0xA6FA4fB5f76172d178d61B04b0ecd319C5d1C0aa';
+const POLYGON_MATIC_WETH = '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619';
+
+/**
+ * The Polygon child token mapped to a root token; no contracts when the token isn't mapped
+ */
+async function polygonChildToken(deposit: BridgeTransfer, destination: ethers.Provider): Promise<string[]> {
+  const manager = new ethers.Contract(
+    POLYGON_CHILD_CHAIN_MANAGER,
+    ['function rootToChildToken(address) view returns (address)'],
+    destination
+  );
+  const childToken: string = await manager.rootToChildToken(deposit.token);
+  return childToken === ethers.ZeroAddress ? [] : [childToken];
+}
+
+const OP_STACK_ERC20_DEPOSIT =
+  'event ERC20DepositInitiated(address indexed l1Token, address indexed l2Token, address indexed from, address to, uint256 amount, bytes extraData)';
+const OP_STACK_ETH_DEPOSIT =
+  'event ETHDepositInitiated(address indexed from, address indexed to, uint256 amount, bytes extraData)';
+const OP_STACK_DEPOSIT_FINALIZED =
+  'event DepositFinalized(address indexed l1Token, address indexed l2Token, address indexed from, address to, uint256 amount, bytes extraData)';
+
+function opStackRoutes(id: string, destinationChainId: number, l1Bridge: string): BridgeRoute[] {
+  const parseFinalized = (args: ethers.Result): BridgeTransfer => ({
+    sender: args.from,
+    recipient: args.to,
+    amount: args.amount,
+    token: args.l1Token,
+  });
+
+  return [
+    {
+      id: `${id}-erc20`,
+      sourceChainId: mainnet.id,
+      destinationChainId,
+      depositContracts: [l1Bridge],
+      depositEvent: OP_STACK_ERC20_DEPOSIT,
+      parseDeposit: args => ({ sender: args.from, recipient: args.to, amount: args.amount, token: args.l1Token }),
+      releaseContracts: [OP_STACK_L2_BRIDGE],
+      releaseEvent: OP_STACK_DEPOSIT_FINALIZED,
+      releaseFilter: deposit => [deposit.token, null, deposit.sender],
+      parseRelease: parseFinalized,
+      maxDelaySeconds: 60 * 60,
+    },
+    {
+      id: `${id}-eth`,
+      sourceChainId: mainnet.id,
+      destinationChainId,
+      depositContracts: [l1Bridge],
+      depositEvent: OP_STACK_ETH_DEPOSIT,
+      parseDeposit: args => ({ sender: args.from, recipient: args.to, amount: args.amount, token: ethers.ZeroAddress }),
+      releaseContracts: [OP_STACK_L2_BRIDGE],
+      releaseEvent: OP_STACK_DEPOSIT_FINALIZED,
+      releaseFilter: deposit => [ethers.ZeroAddress, null, deposit.sender],
+      parseRelease: parseFinalized,
+      maxDelaySeconds: 60 * 60,
+    },
+  ];
+}
+
+export const BRIDGE_ROUTES: BridgeRoute[] = [
+  ...opStackRoutes('optimism', optimism.id, '0x99C9fc46f92E8a1c0deC1b1747d010903E884bE1'),
+  ...opStackRoutes('base', base.id, '0x3154Cf16ccdb4C6d922629664174b904d80F2C35'),
+  {
+    id: 'arbitrum-erc20',
+    sourceChainId: mainnet.id,
+    destinationChainId: arbitrum.id,
+    depositContracts: ['0xa3A7B6F88361F48403514059F1F16C8E78d60EeC'], // L1ERC20Gateway
+    depositEvent:
+      'event DepositInitiated(address l1Token, address indexed _from, address indexed _to, uint256 indexed _sequenceNumber, uint256 _amount)',
+    parseDeposit: args => ({ sender: args._from, recipient: args._to, amount: args._amount, token: args.l1Token }),
+    releaseContracts: ['0x09e9222E96E7B4AE2a407B98d48e330053351EEe'], // L2ERC20Gateway
+    releaseEvent: 'event DepositFinalized(address indexed l1Token, address indexed _from, address indexed _to, uint256 _amount)',
+    releaseFilter: deposit => [deposit.token, deposit.sender, deposit.recipient],
+    parseRelease: args => ({ sender: args._from, recipient: args._to, amount: args._amount, token: args.l1Token }),
+    maxDelaySeconds: 60 * 60,
+  },
+  {
+    id: 'polygon-pos-erc20',
+    sourceChainId: mainnet.id,
+    destinationChainId: polygon.id,
+    depositContracts: ['0x40ec5B33f54e0E8A33A975908C5BA1c14e5BbbDf'], // ERC20PredicateProxy
+    depositEvent:
+      'event LockedERC20(address indexed depositor, address indexed depositReceiver, address indexed rootToken, uint256 amount)',
+    parseDeposit: args => ({
+      sender: args.depositor,
+      recipient: args.depositReceiver,
+      amount: args.amount,
+      token: args.rootToken,
+    }),
+    // The mapped child token is minted to the receiver by the state sync
+    releaseContracts: polygonChildToken,
+    releaseEvent: 'event Transfer(address indexed from, address indexed to, uint256 value)',
+    releaseFilter: deposit => [ethers.ZeroAddress, deposit.recipient],
+    parseRelease: args => ({ sender: args.from, recipient: args.to, amount: args.value }),
+    maxDelaySeconds: 2 * 60 * 60,
+  },
+  {
+    id: 'polygon-pos-eth',
+    sourceChainId: mainnet.id,
+    destinationChainId: polygon.id,
+    depositContracts: ['0x8484Ef722627bf18ca5Ae6BcF031c23E6e922B30'], // EtherPredicateProxy
+    depositEvent: 'event LockedEther(address indexed depositor, address indexed depositReceiver, uint256 amount)',
+    parseDeposit: args => ({
+      sender: args.depositor,
+      recipient: args.depositReceiver,
+      amount: args.amount,
+      token: ethers.ZeroAddress,
+    }),
+    releaseContracts: [POLYGON_MATIC_WETH],
+    releaseEvent: 'event Transfer(address indexed from, address indexed to, uint256 value)',
+    releaseFilter: deposit => [ethers.ZeroAddress, deposit.recipient],
+    parseRelease: args => ({ sender: args.from, recipient: args.to, amount: args.value }),
+    maxDelaySeconds: 2 * 60 * 60,
+  },
+];
+
+export interface BridgeVerificationOptions {
+  walletAddress: string;
+  sourceChainId: number;
+  destinationChainId: number;
+  // Restrict to these route IDs; every route between the two chains when omitted
+  routes?: string[];
+  // Source-chain token that must be bridged (zero address for native currency)
+  token?: string;
+  minAmount?: bigint;
+}
+
+export interface BridgeVerificationResult {
+  verified: boolean;
+  details: string;
+  route?: string;
+  deposit?: BridgeTransfer & { transactionHash: string; blockNumber: number; timestamp: number };
+  release?: BridgeTransfer & { transactionHash: string; blockNumber: number; timestamp: number };
+  // Set while the bridge may still pay out: unix seconds after which to verify again
+  pendingUntil?: number;
+}
+
+/**
+ * Find the bridge deposit in a source-chain transaction
+ */
+export function findBridgeDeposit(
+  receipt: ethers.TransactionReceipt,
+  routes: BridgeRoute[]
+): { route: BridgeRoute; deposit: BridgeTransfer } | undefined {
+  for (const route of routes) {
+    const contracts = route.depositContracts.map(address => address.toLowerCase());
+    const event = new ethers.Interface([route.depositEvent]);
+    const topic = event.fragments[0] as ethers.EventFragment;
+
+    for (const log of receipt.logs) {
+      if (!contracts.includes(log.address.toLowerCase()) || log.topics[0] !== topic.topicHash) continue;
+      const parsed = event.parseLog(log);
+      if (parsed) return { route, deposit: route.parseDeposit(parsed.args) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Verify a bridge transfer: decode the deposit in `txHash` on the source chain,
+ * then find the matching mint/release for the same recipient and amount on the destination chain.
+ * Until the route's `maxDelaySeconds` has passed without a release, the result is pending.
+ */
+export async function verifyBridgeTransfer(
+  txHash: string,
+  options: BridgeVerificationOptions,
+  providers: { source: ethers.Provider; destination: ethers.Provider }
+): Promise<BridgeVerificationResult> {
+  const routes = BRIDGE_ROUTES.filter(
+    route =>
+      route.sourceChainId === options.sourceChainId &&
+      route.destinationChainId === options.destinationChainId &&
+      (!options.routes || options.routes.includes(route.id))
+  );
+  if (routes.length === 0) {
+    return { verified: false, details: 'No supported bridge route between these chains' };
+  }
+
+  const receipt = await providers.source.getTransactionReceipt(txHash);
+  if (!receipt || receipt.status !== 1) {
+    return { verified: false, details: 'Source transaction not found or reverted' };
+  }
+  if (receipt.from.toLowerCase() !== options.walletAddress.toLowerCase()) {
+    return { verified: false, details: 'Source transaction not sent by wallet' };
+  }
+
+  const found = findBridgeDeposit(receipt, routes);
+  if (!found) {
+    return { verified: false, details: 'No bridge deposit found in source transaction' };
+  }
+  const { route, deposit } = found;
+
+  if (options.token && deposit.token?.toLowerCase() !== options.token.toLowerCase()) {
+    return { verified: false, details: 'Bridged token does not match task', route: route.id };
+  }
+  if (options.minAmount !== undefined && deposit.amount < options.minAmount) {
+    return { verified: false, details: 'Bridged amount below task minimum', route: route.id };
+  }
+
+  const sourceBlock = await providers.source.getBlock(receipt.blockNumber);
+  if (!sourceBlock) {
+    return { verified: false, details: 'Source block not found', route: route.id };
+  }
+  const depositRecord = {
+    ...deposit,
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    timestamp: sourceBlock.timestamp,
+  };
+
+  const releaseContracts = Array.isArray(route.releaseContracts)
+    ? route.releaseContracts
+    : await route.releaseContracts(deposit, providers.destination);
+  if (releaseContracts.length === 0) {
+    return { verified: false, details: 'Bridged token has no mapping on destination chain', route: route.id };
+  }
+
+  const releaseEvent = new ethers.Interface([route.releaseEvent]);
+  const releaseFragment = releaseEvent.fragments[0] as ethers.EventFragment;
+  const topics = releaseEvent.encodeFilterTopics(releaseFragment, route.releaseFilter(deposit));
+
+  // Read before scanning, so a release mined during the scan is picked up on the next attempt
+  const destinationHead = await providers.destination.getBlock('latest');
+  if (!destinationHead) {
+    throw new Error('Unable to fetch latest destination block');
+  }
+  const releaseDeadline = sourceBlock.timestamp + route.maxDelaySeconds;
+  const fromBlock = await getBlockNumberAtTimestamp(providers.destination, sourceBlock.timestamp);
+  const toBlock = Math.min(
+    (await getBlockNumberAtTimestamp(providers.destination, releaseDeadline + 1)) - 1,
+    destinationHead.number
+  );
+
+  for (let start = fromBlock; start <= toBlock; start += MAX_LOG_BLOCK_RANGE) {
+    const logs = await providers.destination.getLogs({
+      address: releaseContracts,
+      topics,
+      fromBlock: start,
+      toBlock: Math.min(start + MAX_LOG_BLOCK_RANGE - 1, toBlock),
+    });
+
+    for (const log of logs) {
+      const parsed = releaseEvent.parseLog(log);
+      if (!parsed) continue;
+      const release = route.parseRelease(parsed.args);
+      if (release.recipient.toLowerCase() !== deposit.recipient.toLowerCase() || release.amount !== deposit.amount) {
+        continue;
+      }
+
+      const releaseBlock = await providers.destination.getBlock(log.blockNumber);
+      return {
+        verified: true,
+        details: 'Bridge transfer verified on both chains',
+        route: route.id,
+        deposit: depositRecord,
+        release: {
+          ...release,
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          timestamp: releaseBlock?.timestamp ?? 0,
+        },
+      };
+    }
+  }
+
+  if (destinationHead.timestamp <= releaseDeadline) {
+    return {
+      verified: false,
+      details: 'Bridge has not released the transfer on the destination chain yet',
+      route: route.id,
+      deposit: depositRecord,
+      pendingUntil: releaseDeadline,
+    };
+  }
+
+  return {
+    verified: false,
+    details: 'No matching release found on destination chain',
+    route: route.id,
+    deposit: depositRecord,
+  };
+}
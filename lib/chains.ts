@@ -0,0 +1,90 @@
+import { ethers } from 'ethers';
+import { mainnet, polygon, arbitrum, optimism, base, sepolia } from 'wagmi/chains';
+
+// ØG Chain configuration (placeholder - replace with actual ØG Chain details)
+export const ogChain = {
+  id: 42069, // Placeholder chain ID
+  name: 'ØG Chain',
+  network: 'og-chain',
+  nativeCurrency: {
+    decimals: 18,
+    name: 'ØG Token',
+    symbol: 'ØG',
+  },
+  rpcUrls: {
+    public: { http: ['https://rpc.ogchain.io'] },
+    default: { http: ['https://rpc.ogchain.io'] },
+  },
+  blockExplorers: {
+    default: { name: 'ØG Explorer', url: 'https://explorer.ogchain.io' },
+  },
+  testnet: false,
+} as const;
+
+// External EVM chains tasks can target (shared by the wallet config and server-side verifiers)
+export const EXTERNAL_CHAINS = [mainnet, polygon, arbitrum, optimism, base, sepolia] as const;
+
+// ØG testnet the contracts are deployed to
+export const OG_CHAIN_ID = Number(process.env.NEXT_PUBLIC_OG_CHAIN_ID || 16601);
+const OG_RPC_URL = process.env.NEXT_PUBLIC_OG_CHAIN_RPC_URL || 'https://evmrpc-testnet.0g.ai';
+
+const providers = new Map<number, ethers.JsonRpcProvider>();
+
+/**
+ * Resolve the JSON-RPC endpoint for a chain.
+ * `RPC_URL_<chainId>` overrides the public default (e.g. RPC_URL_1 for an archive node).
+ */
+export function getRpcUrl(chainId: number): string {
+  const override = process.env[`RPC_URL_${chainId}`];
+  if (override) return override;
+  if (chainId === OG_CHAIN_ID) return OG_RPC_URL;
+
+  const chain = EXTERNAL_CHAINS.find(c => c.id === chainId);
+  if (!chain) throw new Error(`Unsupported chain: ${chainId}`);
+  return chain.rpcUrls.default.http[0];
+}
+
+/**
+ * Whether `getRpcUrl` can resolve an endpoint for a chain
+ */
+export function isSupportedChain(chainId: number): boolean {
+  return (
+    Boolean(process.env[`RPC_URL_${chainId}`]) || chainId === OG_CHAIN_ID || EXTERNAL_CHAINS.some(c => c.id === chainId)
+  );
+}
+
+/**
+ * Get a cached read-only provider for a chain
+ */
+export function getProvider(chainId: number = OG_CHAIN_ID): ethers.JsonRpcProvider {
+  let provider = providers.get(chainId);
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(getRpcUrl(chainId), chainId, { staticNetwork: true });
+    providers.set(chainId, provider);
+  }
+  return provider;
+}
+
+/**
+ * Find the first block mined at or after `timestamp` (unix seconds) by binary search.
+ * Returns the latest block number + 1 when the timestamp is in the future.
+ */
+export async function getBlockNumberAtTimestamp(provider: ethers.Provider, timestamp: number): Promise<number> {
+  const latest = await provider.getBlock('latest');
+  if (!latest) throw new Error('Unable to fetch latest block');
+  if (latest.timestamp < timestamp) return latest.number + 1;
+
+  let low = 0;
+  let high = latest.number;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    const block = await provider.getBlock(mid);
+    if (!block) throw new Error(`Unable to fetch block ${mid}`);
+    if (block.timestamp < timestamp) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
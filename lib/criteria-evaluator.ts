@@ -0,0 +1,247 @@
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { getProvider, OG_CHAIN_ID } from './chains';
+import {
+  ERC20_ABI,
+  InvalidAmountError,
+  isNativeToken,
+  parseTokenAmount,
+  TransactionVerificationResult,
+  verifyTokenTransfer,
+} from './transaction-verification';
+import { verifySwaps } from './swap-verifier';
+import { verifyBridgeTransfer } from './bridge-verifier';
+import { verifyLiquidityProvision } from './liquidity-verifier';
+import { verifyNftTask } from './nft-verifier';
+import {
+  BridgeCriteria,
+  LiquidityCriteria,
+  NftCriteria,
+  OnChainCriteria,
+  SwapCriteria,
+  TransferCriteria,
+} from './verification-criteria';
+
+const txHash = z.string().regex(/^0x[0-9a-fA-F]{64}$/, 'Invalid transaction hash');
+
+/**
+ * Proof submitted for an on-chain task: the transactions that satisfy its criteria, if the
+ * criteria need them pointed out
+ */
+export const onChainProofSchema = z
+  .object({ transactionHash: txHash.optional(), transactionHashes: z.array(txHash).optional() })
+  .passthrough();
+
+export type OnChainProof = z.infer<typeof onChainProofSchema>;
+
+export interface CriteriaContext {
+  walletAddress: string;
+  proofData: OnChainProof;
+  // Task window from TaskRegistry, in unix seconds
+  startTime: number;
+  endTime: number;
+}
+
+export interface CriteriaEvaluation {
+  passed: boolean;
+  details: string;
+  // Transaction hashes that satisfied the criteria
+  matched: string[];
+  // Set when the criteria can't be decided yet: unix seconds after which to evaluate again
+  pendingUntil?: number;
+}
+
+/**
+ * Collect the transaction hashes a user submitted as proof
+ */
+export function getProofTransactionHashes(proofData: OnChainProof): string[] {
+  const hashes = proofData.transactionHashes ?? [proofData.transactionHash];
+  const valid = hashes.filter((hash): hash is string => hash !== undefined);
+  return Array.from(new Set(valid.map(hash => hash.toLowerCase())));
+}
+
+async function isWithinWindow(provider: ethers.Provider, blockNumber: number, context: CriteriaContext) {
+  const block = await provider.getBlock(blockNumber);
+  return !!block && block.timestamp >= context.startTime && block.timestamp <= context.endTime;
+}
+
+async function evaluateTransfer(criteria: TransferCriteria, context: CriteriaContext): Promise<CriteriaEvaluation> {
+  const [txHash] = getProofTransactionHashes(context.proofData);
+  if (!txHash) {
+    return { passed: false, details: 'Missing transaction hash', matched: [] };
+  }
+
+  const chainId = criteria.chainId ?? OG_CHAIN_ID;
+  const provider = getProvider(chainId);
+  let result: TransactionVerificationResult;
+  try {
+    result = await verifyTokenTransfer(
+      {
+        txHash,
+        walletAddress: context.walletAddress,
+        expectedAmount: criteria.minAmount,
+        tokenAddress: criteria.tokenAddress ?? ethers.ZeroAddress,
+        chainId,
+      },
+      provider
+    );
+  } catch (error) {
+    // A minAmount finer than the token's decimals won't verify on a retry either
+    if (error instanceof InvalidAmountError) {
+      return { passed: false, details: error.message, matched: [] };
+    }
+    throw error;
+  }
+  if (!result.verified) {
+    return { passed: false, details: result.details, matched: [] };
+  }
+  if (!(await isWithinWindow(provider, result.blockNumber!, context))) {
+    return { passed: false, details: 'Transaction outside task window', matched: [] };
+  }
+  return { passed: true, details: 'Transfer criteria met', matched: [txHash] };
+}
+
+async function evaluateSwap(criteria: SwapCriteria, context: CriteriaContext): Promise<CriteriaEvaluation> {
+  const transactionHashes = getProofTransactionHashes(context.proofData);
+  if (!criteria.pools && transactionHashes.length === 0) {
+    return { passed: false, details: 'Missing swap transaction hashes', matched: [] };
+  }
+
+  const chainId = criteria.chainId ?? OG_CHAIN_ID;
+  const { matched, rejected } = await verifySwaps(getProvider(chainId), {
+    walletAddress: context.walletAddress,
+    chainId,
+    startTime: context.startTime,
+    endTime: context.endTime,
+    pools: criteria.pools,
+    factories: criteria.factories,
+    router: criteria.router,
+    tokenIn: criteria.tokenIn,
+    tokenOut: criteria.tokenOut,
+    minAmountUsd: criteria.minAmountUsd,
+    transactionHashes,
+  });
+  const matchedHashes = matched.map(swap => swap.transactionHash);
+
+  if (matched.length < criteria.count) {
+    const reasons = Array.from(new Set(rejected.map(swap => swap.reason)));
+    return {
+      passed: false,
+      details: `${matched.length} of ${criteria.count} required swaps verified` +
+        (reasons.length ? ` (rejected: ${reasons.join(', ')})` : ''),
+      matched: matchedHashes,
+    };
+  }
+  return { passed: true, details: `${matched.length} qualifying swaps verified`, matched: matchedHashes };
+}
+
+async function evaluateBridge(criteria: BridgeCriteria, context: CriteriaContext): Promise<CriteriaEvaluation> {
+  const [txHash] = getProofTransactionHashes(context.proofData);
+  if (!txHash) {
+    return { passed: false, details: 'Missing source transaction hash', matched: [] };
+  }
+
+  const source = getProvider(criteria.sourceChainId);
+  let minAmount: bigint | undefined;
+  if (criteria.minAmount !== undefined) {
+    const decimals = isNativeToken(criteria.token)
+      ? 18
+      : Number(await new ethers.Contract(criteria.token!, ERC20_ABI, source).decimals());
+    try {
+      minAmount = parseTokenAmount(criteria.minAmount, decimals);
+    } catch (error) {
+      if (error instanceof InvalidAmountError) {
+        return { passed: false, details: error.message, matched: [] };
+      }
+      throw error;
+    }
+  }
+
+  const result = await verifyBridgeTransfer(
+    txHash,
+    {
+      walletAddress: context.walletAddress,
+      sourceChainId: criteria.sourceChainId,
+      destinationChainId: criteria.destinationChainId,
+      routes: criteria.routes,
+      token: criteria.token,
+      minAmount,
+    },
+    { source, destination: getProvider(criteria.destinationChainId) }
+  );
+  const depositedAt = result.deposit?.timestamp;
+  if (depositedAt !== undefined && (depositedAt < context.startTime || depositedAt > context.endTime)) {
+    return { passed: false, details: 'Bridge deposit outside task window', matched: [] };
+  }
+  if (!result.verified) {
+    return { passed: false, details: result.details, matched: [], pendingUntil: result.pendingUntil };
+  }
+  return {
+    passed: true,
+    details: result.details,
+    matched: [result.deposit!.transactionHash, result.release!.transactionHash],
+  };
+}
+
+async function evaluateLiquidity(criteria: LiquidityCriteria, context: CriteriaContext): Promise<CriteriaEvaluation> {
+  const [txHash] = getProofTransactionHashes(context.proofData);
+  if (!txHash) {
+    return { passed: false, details: 'Missing liquidity mint transaction hash', matched: [] };
+  }
+
+  const chainId = criteria.chainId ?? OG_CHAIN_ID;
+  const result = await verifyLiquidityProvision(getProvider(chainId), txHash, {
+    walletAddress: context.walletAddress,
+    chainId,
+    pool: criteria.pool,
+    positionManager: criteria.positionManager,
+    minValueUsd: criteria.minValueUsd,
+    minDurationSeconds: criteria.minDurationSeconds,
+  });
+  const mintedAt = result.position?.mintedAt;
+  if (mintedAt !== undefined && (mintedAt < context.startTime || mintedAt > context.endTime)) {
+    return { passed: false, details: 'Liquidity added outside task window', matched: [] };
+  }
+  if (!result.verified) {
+    return { passed: false, details: result.details, matched: [], pendingUntil: result.pendingUntil };
+  }
+  return { passed: true, details: result.details, matched: [txHash] };
+}
+
+async function evaluateNft(criteria: NftCriteria, context: CriteriaContext): Promise<CriteriaEvaluation> {
+  const result = await verifyNftTask(getProvider(criteria.chainId ?? OG_CHAIN_ID), {
+    walletAddress: context.walletAddress,
+    collection: criteria.collection,
+    mode: criteria.mode,
+    standard: criteria.standard,
+    tokenIds: criteria.tokenIds?.map(id => BigInt(id)),
+    minCount: criteria.minCount,
+    startTime: context.startTime,
+    endTime: context.endTime,
+    snapshotBlock: criteria.snapshotBlock,
+    marketplaces: criteria.marketplaces,
+  });
+  const matched = Array.from(new Set(result.matched.map(transfer => transfer.transactionHash)));
+  return { passed: result.verified, details: result.details, matched };
+}
+
+/**
+ * Evaluate a task's verification criteria against the proof a user submitted
+ */
+export async function evaluateCriteria(
+  criteria: OnChainCriteria,
+  context: CriteriaContext
+): Promise<CriteriaEvaluation> {
+  switch (criteria.type) {
+    case 'transfer':
+      return evaluateTransfer(criteria, context);
+    case 'swap':
+      return evaluateSwap(criteria, context);
+    case 'bridge':
+      return evaluateBridge(criteria, context);
+    case 'liquidity':
+      return evaluateLiquidity(criteria, context);
+    case 'nft':
+      return evaluateNft(criteria, context);
+  }
+}
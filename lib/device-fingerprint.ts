@@ -0,0 +1,299 @@
+import CryptoJS from 'crypto-js';
+
+// Version of the fingerprint format; version 1 fingerprints carry only the navigator and screen basics
+export const DEVICE_FINGERPRINT_VERSION = 2;
+
+export interface MediaDeviceCounts {
+  audioInput: number;
+  audioOutput: number;
+  videoInput: number;
+}
+
+export interface DeviceFingerprint {
+  userAgent: string;
+  screenResolution: string;
+  timezone: string;
+  language: string;
+  platform: string;
+  cookieEnabled: boolean;
+  doNotTrack: string;
+  hardwareConcurrency: number;
+  maxTouchPoints: number;
+  colorDepth: number;
+  pixelRatio: number;
+  // Absent on version 1 fingerprints
+  version?: number;
+  // Version 2 signals, only collected with the user's consent
+  canvasHash?: string;
+  webglRenderer?: string;
+  webglHash?: string;
+  audioHash?: string;
+  // Probe fonts the browser renders
+  fonts?: string[];
+  mediaDevices?: MediaDeviceCounts;
+}
+
+// Where the user's consent to the version 2 signals is remembered
+const FINGERPRINT_CONSENT_KEY = 'homare:fingerprint-consent';
+
+// Fonts probed by measuring text against the generic fallbacks
+const PROBE_FONTS = [
+  'Arial',
+  'Arial Black',
+  'Calibri',
+  'Cambria',
+  'Comic Sans MS',
+  'Consolas',
+  'Courier New',
+  'Georgia',
+  'Helvetica Neue',
+  'Hiragino Sans',
+  'Impact',
+  'Lucida Grande',
+  'Meiryo',
+  'Menlo',
+  'Noto Sans',
+  'Roboto',
+  'Segoe UI',
+  'SF Pro Text',
+  'Tahoma',
+  'Times New Roman',
+  'Trebuchet MS',
+  'Ubuntu',
+  'Verdana',
+  'Yu Gothic',
+];
+
+/**
+ * Generate a version 1 device fingerprint (navigator and screen basics) for sybil detection
+ */
+export function generateDeviceFingerprint(): DeviceFingerprint {
+  if (typeof window === 'undefined') {
+    // Server-side rendering fallback
+    return {
+      userAgent: '',
+      screenResolution: '',
+      timezone: '',
+      language: '',
+      platform: '',
+      cookieEnabled: false,
+      doNotTrack: '',
+      hardwareConcurrency: 0,
+      maxTouchPoints: 0,
+      colorDepth: 0,
+      pixelRatio: 0,
+    };
+  }
+
+  return {
+    userAgent: navigator.userAgent,
+    screenResolution: `${screen.width}x${screen.height}`,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    language: navigator.language,
+    platform: navigator.platform,
+    cookieEnabled: navigator.cookieEnabled,
+    doNotTrack: navigator.doNotTrack || '',
+    hardwareConcurrency: navigator.hardwareConcurrency || 0,
+    maxTouchPoints: navigator.maxTouchPoints || 0,
+    colorDepth: screen.colorDepth,
+    pixelRatio: window.devicePixelRatio,
+  };
+}
+
+function hash(value: string): string {
+  return CryptoJS.SHA256(value).toString();
+}
+
+function getCanvasHash(): string | undefined {
+  const canvas = document.createElement('canvas');
+  canvas.width = 240;
+  canvas.height = 60;
+  const context = canvas.getContext('2d');
+  if (!context) return undefined;
+
+  context.textBaseline = 'top';
+  context.font = '16px Arial';
+  context.fillStyle = '#f60';
+  context.fillRect(100, 5, 80, 30);
+  context.fillStyle = '#069';
+  context.fillText('Homare ØG fingerprint 😃', 4, 12);
+  context.fillStyle = 'rgba(102, 204, 0, 0.7)';
+  context.beginPath();
+  context.arc(50, 30, 20, 0, Math.PI * 2);
+  context.fill();
+  return hash(canvas.toDataURL());
+}
+
+function getWebGLSignals(): { webglRenderer?: string; webglHash?: string } {
+  const gl = document.createElement('canvas').getContext('webgl') as WebGLRenderingContext | null;
+  if (!gl) return {};
+
+  const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+  const vendor = debugInfo ? gl.getParameter(debugInfo.UNMASKED_VENDOR_WEBGL) : gl.getParameter(gl.VENDOR);
+  const renderer = debugInfo ? gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER);
+  const parameters = [
+    gl.MAX_TEXTURE_SIZE,
+    gl.MAX_RENDERBUFFER_SIZE,
+    gl.MAX_VERTEX_ATTRIBS,
+    gl.MAX_VERTEX_UNIFORM_VECTORS,
+    gl.MAX_FRAGMENT_UNIFORM_VECTORS,
+    gl.MAX_VARYING_VECTORS,
+    gl.SHADING_LANGUAGE_VERSION,
+  ].map(parameter => String(gl.getParameter(parameter)));
+
+  return {
+    webglRenderer: `${vendor} ${renderer}`.slice(0, 256),
+    webglHash: hash([...parameters, ...(gl.getSupportedExtensions() ?? [])].join('|')),
+  };
+}
+
+async function getAudioHash(): Promise<string | undefined> {
+  const OfflineContext =
+    window.OfflineAudioContext ??
+    (window as Window & { webkitOfflineAudioContext?: typeof OfflineAudioContext }).webkitOfflineAudioContext;
+  if (!OfflineContext) return undefined;
+
+  const context: OfflineAudioContext = new OfflineContext(1, 5000, 44100);
+  const oscillator = context.createOscillator();
+  oscillator.type = 'triangle';
+  oscillator.frequency.value = 10000;
+  const compressor = context.createDynamicsCompressor();
+  oscillator.connect(compressor);
+  compressor.connect(context.destination);
+  oscillator.start(0);
+
+  const buffer = await context.startRendering();
+  const samples = buffer.getChannelData(0).slice(4500, 5000);
+  return hash(Array.from(samples, sample => Math.abs(sample).toFixed(6)).join(','));
+}
+
+function getFonts(): string[] | undefined {
+  const context = document.createElement('canvas').getContext('2d');
+  if (!context) return undefined;
+
+  const text = 'mmmmmmmmmmlli10OÖ';
+  const fallbacks = ['monospace', 'serif', 'sans-serif'];
+  const widthWith = (font: string) => {
+    context.font = `72px ${font}`;
+    return context.measureText(text).width;
+  };
+  const baseWidths = fallbacks.map(widthWith);
+  return PROBE_FONTS.filter(font =>
+    fallbacks.some((fallback, i) => widthWith(`'${font}', ${fallback}`) !== baseWidths[i])
+  );
+}
+
+async function getMediaDeviceCounts(): Promise<MediaDeviceCounts | undefined> {
+  if (!navigator.mediaDevices?.enumerateDevices) return undefined;
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const count = (kind: MediaDeviceKind) => devices.filter(device => device.kind === kind).length;
+  return { audioInput: count('audioinput'), audioOutput: count('audiooutput'), videoInput: count('videoinput') };
+}
+
+// Signals that fail to collect (blocked APIs, privacy extensions) are left out rather than failing the fingerprint
+async function collect<T>(signal: () => T | Promise<T>): Promise<T | undefined> {
+  try {
+    return await signal();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Generate a version 2 device fingerprint: the basics plus canvas, WebGL, audio, font and
+ * media-device signals. Only call this with the user's consent (`getFingerprintConsent`).
+ */
+export async function generateExtendedDeviceFingerprint(): Promise<DeviceFingerprint> {
+  const basics = generateDeviceFingerprint();
+  if (typeof window === 'undefined') {
+    return basics;
+  }
+
+  const [canvasHash, webgl, audioHash, fonts, mediaDevices] = await Promise.all([
+    collect(getCanvasHash),
+    collect(getWebGLSignals),
+    collect(getAudioHash),
+    collect(getFonts),
+    collect(getMediaDeviceCounts),
+  ]);
+  return {
+    ...basics,
+    version: DEVICE_FINGERPRINT_VERSION,
+    canvasHash,
+    ...webgl,
+    audioHash,
+    fonts,
+    mediaDevices,
+  };
+}
+
+/**
+ * Whether the user agreed to the version 2 fingerprint signals
+ */
+export function getFingerprintConsent(): boolean {
+  return typeof window !== 'undefined' && window.localStorage.getItem(FINGERPRINT_CONSENT_KEY) === 'granted';
+}
+
+export function setFingerprintConsent(granted: boolean) {
+  window.localStorage.setItem(FINGERPRINT_CONSENT_KEY, granted ? 'granted' : 'denied');
+}
+
+/**
+ * Generate unique user ID based on device fingerprint
+ */
+export function generateUserID(fingerprint: DeviceFingerprint): string {
+  const fingerprintString = JSON.stringify(fingerprint);
+  return CryptoJS.SHA256(fingerprintString).toString();
+}
+
+export const FINGERPRINT_BUNDLE_VERSION = 1;
+
+/**
+ * Device fingerprint captured in the browser when a task is completed
+ */
+export interface FingerprintBundle {
+  version: number;
+  taskId: number;
+  walletAddress: string;
+  fingerprint: DeviceFingerprint;
+  issuedAt: number;
+}
+
+export interface SignedFingerprintBundle {
+  bundle: FingerprintBundle;
+  // Wallet signature over `buildFingerprintMessage(bundle)`
+  signature: string;
+}
+
+/**
+ * Capture the current device's fingerprint for a task completion (browser only).
+ * The version 2 signals are only collected when the user has consented.
+ */
+export async function createFingerprintBundle(
+  taskId: number,
+  walletAddress: string,
+  extended = getFingerprintConsent()
+): Promise<FingerprintBundle> {
+  return {
+    version: FINGERPRINT_BUNDLE_VERSION,
+    taskId,
+    walletAddress,
+    fingerprint: extended ? await generateExtendedDeviceFingerprint() : generateDeviceFingerprint(),
+    issuedAt: Date.now(),
+  };
+}
+
+/**
+ * Message the wallet signs to attest the bundle; commits to the fingerprint through its hash
+ */
+export function buildFingerprintMessage(bundle: FingerprintBundle): string {
+  return [
+    'Homare device attestation',
+    '',
+    `Task: ${bundle.taskId}`,
+    `Wallet: ${bundle.walletAddress.toLowerCase()}`,
+    `Fingerprint: ${generateUserID(bundle.fingerprint)}`,
+    `Version: ${bundle.version}`,
+    `Issued At: ${new Date(bundle.issuedAt).toISOString()}`,
+  ].join('\n');
+}
@@ -0,0 +1,144 @@
+/**
+ * Minimal HTTP surface the Discord client needs; `fetch` satisfies it.
+ * Swap it out (or point `baseUrl` at a local mock server) in tests.
+ */
+export type DiscordHttpClient = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string }
+) => Promise<{
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  json(): Promise<any>;
+}>;
+
+export interface DiscordClientOptions {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  // Bot in the task guilds; membership and roles are read with it
+  botToken: string;
+  baseUrl?: string;
+  authorizeUrl?: string;
+  httpClient?: DiscordHttpClient;
+  maxRetries?: number;
+  // Longest we are willing to wait for a rate-limit bucket to reset
+  maxRateLimitWaitMs?: number;
+}
+
+export interface DiscordUser {
+  id: string;
+  username: string;
+  global_name?: string | null;
+}
+
+export interface DiscordGuildMember {
+  roles: string[];
+  joined_at: string;
+}
+
+export class DiscordApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'DiscordApiError';
+  }
+}
+
+export interface DiscordClient {
+  // URL the user is sent to for the OAuth2 `identify` grant
+  getAuthorizeUrl(state: string): string;
+  // Exchange an OAuth2 authorization code for the user it belongs to
+  getUserFromCode(code: string): Promise<DiscordUser>;
+  getGuildMember(guildId: string, userId: string): Promise<DiscordGuildMember | undefined>;
+}
+
+const DEFAULT_BASE_URL = 'https://discord.com/api/v10';
+const DEFAULT_AUTHORIZE_URL = 'https://discord.com/oauth2/authorize';
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a Discord API client with rate-limit-aware retries.
+ * On 429 it waits for `retry_after`; on 5xx it backs off exponentially.
+ */
+export function createDiscordClient(options: DiscordClientOptions): DiscordClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const httpClient: DiscordHttpClient = options.httpClient ?? ((url, init) => fetch(url, init));
+  const maxRetries = options.maxRetries ?? 3;
+  const maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60_000;
+
+  const request = async (
+    method: string,
+    path: string,
+    headers: Record<string, string>,
+    body?: string
+  ): Promise<any> => {
+    for (let attempt = 0; ; attempt++) {
+      const response = await httpClient(`${baseUrl}${path}`, { method, headers, body });
+      if (response.ok) {
+        return response.json();
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= maxRetries) {
+        throw new DiscordApiError(`Discord API request failed: ${response.status} ${path}`, response.status);
+      }
+
+      let waitMs = 1000 * 2 ** attempt;
+      if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('retry-after'));
+        if (retryAfter) waitMs = retryAfter * 1000;
+        if (waitMs > maxRateLimitWaitMs) {
+          throw new DiscordApiError('Discord API rate limit exceeded', 429);
+        }
+      }
+      await sleep(waitMs);
+    }
+  };
+
+  return {
+    getAuthorizeUrl(state) {
+      const query = new URLSearchParams({
+        client_id: options.clientId,
+        redirect_uri: options.redirectUri,
+        response_type: 'code',
+        scope: 'identify',
+        state,
+        prompt: 'none',
+      });
+      return `${options.authorizeUrl ?? DEFAULT_AUTHORIZE_URL}?${query}`;
+    },
+
+    async getUserFromCode(code) {
+      const token = await request(
+        'POST',
+        '/oauth2/token',
+        { 'Content-Type': 'application/x-www-form-urlencoded' },
+        new URLSearchParams({
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          grant_type: 'authorization_code',
+          code,
+          redirect_uri: options.redirectUri,
+        }).toString()
+      );
+      return request('GET', '/users/@me', { Authorization: `Bearer ${token.access_token}` });
+    },
+
+    async getGuildMember(guildId, userId) {
+      try {
+        return await request(
+          'GET',
+          `/guilds/${encodeURIComponent(guildId)}/members/${encodeURIComponent(userId)}`,
+          { Authorization: `Bot ${options.botToken}` }
+        );
+      } catch (error) {
+        // Unknown member (or a guild the bot is not in)
+        if (error instanceof DiscordApiError && error.status === 404) return undefined;
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { createDiscordClient, DiscordClient } from './discord-client';
+import { OAuthLinkProvider } from './social-linking';
+
+export const DISCORD_ACTIONS = ['join', 'role'] as const;
+export type DiscordAction = (typeof DISCORD_ACTIONS)[number];
+
+export interface DiscordActionRequest {
+  action: DiscordAction;
+  // Linked Discord account
+  userId: string;
+  guildId: string;
+  // Roles the member must hold (role)
+  roleIds?: string[];
+}
+
+export interface DiscordActionResult {
+  verified: boolean;
+  details: string;
+}
+
+/**
+ * Build a Discord client from DISCORD_CLIENT_ID, DISCORD_CLIENT_SECRET, DISCORD_REDIRECT_URI and DISCORD_BOT_TOKEN.
+ * DISCORD_API_BASE_URL points it at a mock server for local testing.
+ */
+export function getDiscordClient(): DiscordClient {
+  const { DISCORD_CLIENT_ID, DISCORD_CLIENT_SECRET, DISCORD_REDIRECT_URI, DISCORD_BOT_TOKEN } = process.env;
+  if (!DISCORD_CLIENT_ID || !DISCORD_CLIENT_SECRET || !DISCORD_REDIRECT_URI || !DISCORD_BOT_TOKEN) {
+    throw new Error('Discord OAuth2 and bot credentials are not defined');
+  }
+  return createDiscordClient({
+    clientId: DISCORD_CLIENT_ID,
+    clientSecret: DISCORD_CLIENT_SECRET,
+    redirectUri: DISCORD_REDIRECT_URI,
+    botToken: DISCORD_BOT_TOKEN,
+    baseUrl: process.env.DISCORD_API_BASE_URL,
+  });
+}
+
+/**
+ * Check guild membership or roles for a Discord account
+ */
+export async function checkDiscordAction(
+  client: DiscordClient,
+  request: DiscordActionRequest
+): Promise<DiscordActionResult> {
+  const member = await client.getGuildMember(request.guildId, request.userId);
+  if (!member) {
+    return { verified: false, details: 'Account is not a member of the guild' };
+  }
+
+  switch (request.action) {
+    case 'join':
+      return { verified: true, details: 'Guild membership verified' };
+    case 'role': {
+      if (!request.roleIds?.length) {
+        return { verified: false, details: 'Missing role IDs' };
+      }
+      const missing = request.roleIds.filter(roleId => !member.roles.includes(roleId));
+      return missing.length === 0
+        ? { verified: true, details: 'Guild roles verified' }
+        : { verified: false, details: `Member is missing ${missing.length} required role(s)` };
+    }
+  }
+}
+
+/**
+ * Discord as an OAuth2 link provider for wallet↔account linking
+ */
+export function toDiscordLinkProvider(client: DiscordClient): OAuthLinkProvider {
+  return {
+    getAuthorizeUrl: state => client.getAuthorizeUrl(state),
+    async getAccountFromCode(code) {
+      const user = await client.getUserFromCode(code);
+      return { accountId: user.id, handle: user.username };
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { downloadJson, uploadStream } from './zg-storage';
+import type { VerificationEvidence, VerificationResult, VerificationType } from './verification-oracle';
+
+// Version of the bundle format; bump when its shape changes incompatibly
+export const EVIDENCE_BUNDLE_VERSION = 1;
+
+/**
+ * A verification request, the result submitted for it and the evidence behind it,
+ * archived to 0G Storage so disputes can replay the verification
+ */
+export interface EvidenceBundle extends VerificationEvidence {
+  version: number;
+  request: {
+    // Decimal string, so it survives JSON
+    requestId: string;
+    taskId: number;
+    user: string;
+    verificationType: VerificationType;
+    proofData: unknown;
+  };
+  result: Omit<VerificationResult, 'evidence'>;
+  // Format version of the criteria the proof was evaluated against, if any
+  criteriaVersion?: number;
+}
+
+export function buildEvidenceBundle(request: EvidenceBundle['request'], result: VerificationResult): EvidenceBundle {
+  const { evidence, ...submitted } = result;
+  return {
+    version: EVIDENCE_BUNDLE_VERSION,
+    request,
+    result: submitted,
+    criteriaVersion: evidence?.criteria?.version,
+    ...evidence,
+  };
+}
+
+// Uploads `data` under `filename` and resolves to its root hash; `uploadStream` in production
+export type EvidenceUploader = (data: string, filename: string) => Promise<{ rootHash: string }>;
+
+/**
+ * Upload a bundle and return its 0G Storage root hash
+ */
+export async function archiveEvidenceBundle(
+  bundle: EvidenceBundle,
+  upload: EvidenceUploader = uploadStream
+): Promise<string> {
+  // Receipts and sybil state can carry bigints
+  const data = JSON.stringify(bundle, (_key, value) => (typeof value === 'bigint' ? value.toString() : value));
+  const { rootHash } = await upload(data, `evidence-${bundle.request.requestId}.json`);
+  return rootHash;
+}
+
+/**
+ * Download an archived bundle; the download is checked against the root hash
+ */
+export async function fetchEvidenceBundle(rootHash: string): Promise<EvidenceBundle> {
+  return downloadJson<EvidenceBundle>(rootHash);
+}
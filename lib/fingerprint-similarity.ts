@@ -0,0 +1,214 @@
+import type { DeviceFingerprint, MediaDeviceCounts } from './device-fingerprint';
+
+export type FingerprintField = Exclude<keyof DeviceFingerprint, 'version'>;
+export type FingerprintWeights = Record<FingerprintField, number>;
+
+/**
+ * How much each field says about the device. Fields users change without changing device
+ * (zoom → pixelRatio, privacy toggles) weigh little. Version 2 fields only count when both
+ * fingerprints have them, so version 1 and version 2 fingerprints stay comparable.
+ */
+export const DEFAULT_FINGERPRINT_WEIGHTS: FingerprintWeights = {
+  userAgent: 3,
+  screenResolution: 2,
+  timezone: 2,
+  language: 1.5,
+  platform: 1.5,
+  cookieEnabled: 0.5,
+  doNotTrack: 0.5,
+  hardwareConcurrency: 1.5,
+  maxTouchPoints: 1,
+  colorDepth: 1,
+  pixelRatio: 0.5,
+  canvasHash: 3,
+  webglRenderer: 2,
+  webglHash: 2,
+  audioHash: 2,
+  fonts: 2,
+  mediaDevices: 1,
+};
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.9;
+
+export interface FingerprintSimilarityOptions {
+  weights?: FingerprintWeights;
+  // Similarity (0-1) at which two fingerprints count as the same device
+  threshold?: number;
+  // LSH banding: more bands finds more candidates, more rows per band finds fewer
+  bands?: number;
+  rowsPerBand?: number;
+}
+
+export interface FingerprintRecord {
+  wallet: string;
+  fingerprint: DeviceFingerprint;
+  // From `getLshBuckets`, stored with the record so queries don't rehash every fingerprint
+  buckets?: string[];
+}
+
+export interface NearDuplicate {
+  wallet: string;
+  similarity: number;
+  differingFields: FingerprintField[];
+}
+
+function userAgentTokens(userAgent: string): Set<string> {
+  return new Set(userAgent.toLowerCase().split(/[\s/();,]+/).filter(Boolean));
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function parseResolution(resolution: string): [number, number] | undefined {
+  const match = /^(\d+)x(\d+)$/.exec(resolution);
+  return match ? [Number(match[1]), Number(match[2])] : undefined;
+}
+
+/**
+ * Similarity (0-1) of one field. User agents compare by token overlap so a browser update
+ * only moves the version tokens; resolutions with the same aspect ratio are likely the same
+ * screen at another zoom level.
+ */
+export function fieldSimilarity<F extends FingerprintField>(
+  field: F,
+  a: DeviceFingerprint[F],
+  b: DeviceFingerprint[F]
+): number {
+  if (a === b) return 1;
+  switch (field) {
+    case 'fonts':
+      return jaccard(new Set(a as string[]), new Set(b as string[]));
+    case 'mediaDevices': {
+      const ma = a as MediaDeviceCounts;
+      const mb = b as MediaDeviceCounts;
+      const kinds = ['audioInput', 'audioOutput', 'videoInput'] as const;
+      return kinds.filter(kind => ma[kind] === mb[kind]).length / kinds.length;
+    }
+    case 'userAgent':
+      return jaccard(userAgentTokens(a as string), userAgentTokens(b as string));
+    case 'screenResolution': {
+      const ra = parseResolution(a as string);
+      const rb = parseResolution(b as string);
+      if (!ra || !rb || ra[1] === 0 || rb[1] === 0) return 0;
+      return Math.abs(ra[0] / ra[1] - rb[0] / rb[1]) < 0.01 ? 0.75 : 0;
+    }
+    case 'pixelRatio': {
+      const max = Math.max(a as number, b as number);
+      return max > 0 ? 1 - Math.abs((a as number) - (b as number)) / max : 0;
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Weighted similarity (0-1) of two fingerprints
+ */
+export function fingerprintSimilarity(
+  a: DeviceFingerprint,
+  b: DeviceFingerprint,
+  weights: FingerprintWeights = DEFAULT_FINGERPRINT_WEIGHTS
+): number {
+  let total = 0;
+  let matched = 0;
+  for (const field of Object.keys(weights) as FingerprintField[]) {
+    if (a[field] === undefined || b[field] === undefined) continue;
+    total += weights[field];
+    matched += weights[field] * fieldSimilarity(field, a[field], b[field]);
+  }
+  return total > 0 ? matched / total : 0;
+}
+
+// 32-bit FNV-1a; fast and good enough for MinHash permutations
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+function shingles(fingerprint: DeviceFingerprint): string[] {
+  // Only version 1 fields, so fingerprints of either version land in each other's buckets.
+  // pixelRatio is left out: zoom changes it, and a changed shingle costs bucket collisions.
+  const fields: FingerprintField[] = [
+    'screenResolution',
+    'timezone',
+    'language',
+    'platform',
+    'cookieEnabled',
+    'doNotTrack',
+    'hardwareConcurrency',
+    'maxTouchPoints',
+    'colorDepth',
+  ];
+  return [
+    ...Array.from(userAgentTokens(fingerprint.userAgent)).map(token => `ua:${token}`),
+    ...fields.map(field => `${field}:${fingerprint[field]}`),
+  ];
+}
+
+/**
+ * MinHash LSH bucket keys. Fingerprints sharing any key are candidates for a full comparison;
+ * similar fingerprints share one with high probability, dissimilar ones rarely do.
+ */
+export function getLshBuckets(fingerprint: DeviceFingerprint, options: FingerprintSimilarityOptions = {}): string[] {
+  const bands = options.bands ?? 8;
+  const rowsPerBand = options.rowsPerBand ?? 3;
+  const tokens = shingles(fingerprint);
+
+  const signature: number[] = [];
+  for (let seed = 0; seed < bands * rowsPerBand; seed++) {
+    signature.push(Math.min(...tokens.map(token => fnv1a(`${seed}:${token}`))));
+  }
+
+  const buckets: string[] = [];
+  for (let band = 0; band < bands; band++) {
+    const rows = signature.slice(band * rowsPerBand, (band + 1) * rowsPerBand);
+    buckets.push(`${band}:${rows.map(row => row.toString(36)).join('.')}`);
+  }
+  return buckets;
+}
+
+/**
+ * Find the wallets in `records` whose fingerprints are near-duplicates of `fingerprint`,
+ * most similar first. LSH narrows the records down before the weighted comparison; callers
+ * with many records should pass only those stored under the fingerprint's buckets.
+ */
+export function findNearDuplicates(
+  fingerprint: DeviceFingerprint,
+  records: FingerprintRecord[],
+  options: FingerprintSimilarityOptions = {}
+): NearDuplicate[] {
+  const weights = options.weights ?? DEFAULT_FINGERPRINT_WEIGHTS;
+  const threshold = options.threshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const buckets = new Set(getLshBuckets(fingerprint, options));
+
+  const best = new Map<string, NearDuplicate>();
+  for (const record of records) {
+    const recordBuckets = record.buckets ?? getLshBuckets(record.fingerprint, options);
+    if (!recordBuckets.some(bucket => buckets.has(bucket))) continue;
+
+    const similarity = fingerprintSimilarity(fingerprint, record.fingerprint, weights);
+    const wallet = record.wallet.toLowerCase();
+    if (similarity < threshold || (best.get(wallet)?.similarity ?? -1) >= similarity) continue;
+    best.set(wallet, {
+      wallet,
+      similarity,
+      differingFields: (Object.keys(weights) as FingerprintField[]).filter(
+        field =>
+          fingerprint[field] !== undefined &&
+          record.fingerprint[field] !== undefined &&
+          fieldSimilarity(field, fingerprint[field], record.fingerprint[field]) < 1
+      ),
+    });
+  }
+  return Array.from(best.values()).sort((a, b) => b.similarity - a.similarity);
+}
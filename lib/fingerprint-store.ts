@@ -0,0 +1,102 @@
+import { ethers } from 'ethers';
+import { z } from 'zod';
+import { findJson, setJson } from './kv-store';
+import {
+  buildFingerprintMessage,
+  DEVICE_FINGERPRINT_VERSION,
+  FINGERPRINT_BUNDLE_VERSION,
+  SignedFingerprintBundle,
+} from './device-fingerprint';
+
+// KV stream holding device fingerprint bundles and sybil state
+export const SYBIL_STREAM_ID = process.env.SYBIL_STREAM_ID || ethers.id('homare:sybil');
+
+// Bundles must be submitted shortly after they are captured and signed
+const MAX_BUNDLE_AGE_MS = 10 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+const sha256 = z.string().regex(/^[0-9a-f]{64}$/, 'Invalid hash');
+
+export const signedFingerprintBundleSchema = z.object({
+  bundle: z.object({
+    version: z.literal(FINGERPRINT_BUNDLE_VERSION),
+    taskId: z.number().int().positive(),
+    walletAddress: z.string().refine(value => ethers.isAddress(value), 'Invalid wallet address'),
+    // Keys in the order the browser builds them; the signature commits to the fingerprint's JSON
+    fingerprint: z.object({
+      userAgent: z.string().max(512),
+      screenResolution: z.string().max(32),
+      timezone: z.string().max(64),
+      language: z.string().max(35),
+      platform: z.string().max(64),
+      cookieEnabled: z.boolean(),
+      doNotTrack: z.string().max(16),
+      hardwareConcurrency: z.number().int().nonnegative(),
+      maxTouchPoints: z.number().int().nonnegative(),
+      colorDepth: z.number().int().nonnegative(),
+      pixelRatio: z.number().nonnegative(),
+      version: z.number().int().min(2).max(DEVICE_FINGERPRINT_VERSION).optional(),
+      canvasHash: sha256.optional(),
+      webglRenderer: z.string().max(256).optional(),
+      webglHash: sha256.optional(),
+      audioHash: sha256.optional(),
+      fonts: z.array(z.string().max(64)).max(64).optional(),
+      mediaDevices: z
+        .object({
+          audioInput: z.number().int().nonnegative(),
+          audioOutput: z.number().int().nonnegative(),
+          videoInput: z.number().int().nonnegative(),
+        })
+        .optional(),
+    }),
+    issuedAt: z.number().int(),
+  }),
+  signature: z.string().refine(value => ethers.isHexString(value, 65), 'Invalid signature'),
+});
+
+export interface StoredFingerprintBundle extends SignedFingerprintBundle {
+  receivedAt: number;
+}
+
+function bundleKey(taskId: number, walletAddress: string) {
+  return `fingerprint:${taskId}:${walletAddress.toLowerCase()}`;
+}
+
+/**
+ * Check a signed bundle is fresh and signed by the wallet it names
+ */
+export function verifyFingerprintBundle(signed: SignedFingerprintBundle, now = Date.now()): { valid: boolean; details: string } {
+  const { bundle, signature } = signed;
+  if (bundle.issuedAt > now + MAX_CLOCK_SKEW_MS || now - bundle.issuedAt > MAX_BUNDLE_AGE_MS) {
+    return { valid: false, details: 'Fingerprint bundle expired' };
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(buildFingerprintMessage(bundle), signature);
+  } catch {
+    return { valid: false, details: 'Invalid signature' };
+  }
+  if (signer.toLowerCase() !== bundle.walletAddress.toLowerCase()) {
+    return { valid: false, details: 'Fingerprint bundle not signed by wallet' };
+  }
+  return { valid: true, details: 'Fingerprint bundle verified' };
+}
+
+/**
+ * Store a verified bundle against its task completion (task, wallet)
+ */
+export async function storeFingerprintBundle(signed: SignedFingerprintBundle) {
+  const stored: StoredFingerprintBundle = { ...signed, receivedAt: Date.now() };
+  await setJson(SYBIL_STREAM_ID, bundleKey(signed.bundle.taskId, signed.bundle.walletAddress), stored);
+}
+
+/**
+ * Get the bundle submitted with a task completion, if any
+ */
+export async function getFingerprintBundle(
+  taskId: number,
+  walletAddress: string
+): Promise<StoredFingerprintBundle | undefined> {
+  return findJson<StoredFingerprintBundle>(SYBIL_STREAM_ID, bundleKey(taskId, walletAddress));
+}
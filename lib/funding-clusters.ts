@@ -0,0 +1,153 @@
+import { ethers } from 'ethers';
+import { findJson, setJson } from './kv-store';
+import type { WalletActivity } from './transaction-history';
+
+/**
+ * One first-funding transfer into a task participant
+ */
+export interface FundingEdge {
+  chainId: number;
+  source: string;
+  wallet: string;
+  // Wei, as a decimal string so it survives JSON
+  value: string;
+  timestamp: number;
+  hash: string;
+}
+
+export type FundingPattern = 'star' | 'identical-fan-out';
+
+export interface FundingCluster {
+  // Stable per (chain, source, pattern), so audits can follow a cluster across scoring runs
+  id: string;
+  chainId: number;
+  source: string;
+  pattern: FundingPattern;
+  wallets: string[];
+  // Amount every wallet in an identical-amount fan-out received
+  value?: string;
+}
+
+export interface FundingClusterOptions {
+  // Participants one source must fund before it counts as a star
+  minStarSize?: number;
+  // Participants funded with the same amount inside `burstWindowMs` to count as a fan-out
+  minFanOutSize?: number;
+  burstWindowMs?: number;
+  // Sources that legitimately fund many wallets (exchange hot wallets, bridges, faucets)
+  ignoredSources?: string[];
+}
+
+const DEFAULT_MIN_STAR_SIZE = 5;
+const DEFAULT_MIN_FAN_OUT_SIZE = 3;
+const DEFAULT_BURST_WINDOW_MS = 60 * 60 * 1000;
+// Comma-separated addresses that legitimately fund many wallets
+const DEFAULT_IGNORED_SOURCES = (process.env.SYBIL_FUNDING_IGNORED_SOURCES || '')
+  .split(',')
+  .map(source => source.trim())
+  .filter(Boolean);
+
+function clusterId(chainId: number, source: string, pattern: FundingPattern) {
+  return ethers.id(`funding:${chainId}:${source}:${pattern}`);
+}
+
+/**
+ * Group first-funding edges by (chain, source)
+ */
+export function buildFundingGraph(edges: FundingEdge[]): Map<string, FundingEdge[]> {
+  const graph = new Map<string, FundingEdge[]>();
+  for (const edge of edges) {
+    const key = `${edge.chainId}:${edge.source.toLowerCase()}`;
+    graph.set(key, [...(graph.get(key) ?? []), edge]);
+  }
+  return graph;
+}
+
+/**
+ * Find sources that funded many participants (star) or funded several with the same
+ * amount in one burst (identical-amount fan-out). Fan-outs are reported before stars.
+ */
+export function detectFundingClusters(edges: FundingEdge[], options: FundingClusterOptions = {}): FundingCluster[] {
+  const minStarSize = options.minStarSize ?? DEFAULT_MIN_STAR_SIZE;
+  const minFanOutSize = options.minFanOutSize ?? DEFAULT_MIN_FAN_OUT_SIZE;
+  const burstWindowMs = options.burstWindowMs ?? DEFAULT_BURST_WINDOW_MS;
+  const ignored = new Set((options.ignoredSources ?? DEFAULT_IGNORED_SOURCES).map(source => source.toLowerCase()));
+
+  const fanOuts: FundingCluster[] = [];
+  const stars: FundingCluster[] = [];
+  for (const sourceEdges of Array.from(buildFundingGraph(edges).values())) {
+    const { chainId } = sourceEdges[0];
+    const source = sourceEdges[0].source.toLowerCase();
+    if (ignored.has(source)) continue;
+
+    const byAmount = new Map<string, FundingEdge[]>();
+    for (const edge of sourceEdges) {
+      byAmount.set(edge.value, [...(byAmount.get(edge.value) ?? []), edge]);
+    }
+    for (const [value, sameAmount] of Array.from(byAmount.entries())) {
+      // Slide a window over the transfers of this amount and keep the largest burst
+      const sorted = [...sameAmount].sort((a, b) => a.timestamp - b.timestamp);
+      let burst: FundingEdge[] = [];
+      for (let start = 0, end = 0; end < sorted.length; end++) {
+        while (sorted[end].timestamp - sorted[start].timestamp > burstWindowMs) start++;
+        if (end - start + 1 > burst.length) burst = sorted.slice(start, end + 1);
+      }
+      const wallets = Array.from(new Set(burst.map(edge => edge.wallet.toLowerCase())));
+      if (wallets.length >= minFanOutSize) {
+        fanOuts.push({
+          id: clusterId(chainId, source, 'identical-fan-out'),
+          chainId,
+          source,
+          pattern: 'identical-fan-out',
+          wallets,
+          value,
+        });
+      }
+    }
+
+    const wallets = Array.from(new Set(sourceEdges.map(edge => edge.wallet.toLowerCase())));
+    if (wallets.length >= minStarSize) {
+      stars.push({ id: clusterId(chainId, source, 'star'), chainId, source, pattern: 'star', wallets });
+    }
+  }
+  return [...fanOuts, ...stars];
+}
+
+async function getFundingEdges(streamId: string): Promise<FundingEdge[]> {
+  return (await findJson<FundingEdge[]>(streamId, 'fundingEdges')) ?? [];
+}
+
+async function setFundingEdges(streamId: string, edges: FundingEdge[]) {
+  return setJson(streamId, 'fundingEdges', edges);
+}
+
+/**
+ * Add a participant's first-funding transfers to the campaign's funding graph and return
+ * the clusters the participant falls into
+ */
+export async function findFundingClusters(
+  walletAddress: string,
+  activity: WalletActivity,
+  streamId: string,
+  options: FundingClusterOptions = {}
+): Promise<FundingCluster[]> {
+  const wallet = walletAddress.toLowerCase();
+  const existing = await getFundingEdges(streamId);
+  const known = new Set(existing.map(edge => `${edge.chainId}:${edge.wallet.toLowerCase()}`));
+  const added: FundingEdge[] = activity.fundingTransfers
+    .filter(transfer => !known.has(`${transfer.chainId}:${wallet}`))
+    .map(transfer => ({
+      chainId: transfer.chainId,
+      source: transfer.from.toLowerCase(),
+      wallet,
+      value: transfer.value.toString(),
+      timestamp: transfer.timestamp,
+      hash: transfer.hash,
+    }));
+
+  const edges = [...existing, ...added];
+  if (added.length > 0) {
+    await setFundingEdges(streamId, edges);
+  }
+  return detectFundingClusters(edges, options).filter(cluster => cluster.wallets.includes(wallet));
+}
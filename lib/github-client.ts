@@ -0,0 +1,250 @@
+/**
+ * Minimal HTTP surface the GitHub client needs; `fetch` satisfies it.
+ * Swap it out (or point `baseUrl` at a local mock server) in tests.
+ */
+export type GitHubHttpClient = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body?: string }
+) => Promise<{
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  json(): Promise<any>;
+}>;
+
+export interface GitHubClientOptions {
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  // Token for REST and GraphQL reads; unauthenticated requests get a much lower rate limit
+  token?: string;
+  baseUrl?: string;
+  // OAuth endpoints live on github.com rather than the API host
+  oauthBaseUrl?: string;
+  httpClient?: GitHubHttpClient;
+  maxRetries?: number;
+  // Longest we are willing to wait for a rate-limit window to reset
+  maxRateLimitWaitMs?: number;
+  // Pages fetched before giving up on a paginated lookup
+  maxPages?: number;
+}
+
+export interface GitHubUser {
+  id: number;
+  login: string;
+  created_at: string;
+}
+
+export interface GitHubRepository {
+  full_name: string;
+  fork: boolean;
+  default_branch: string;
+  owner: { login: string };
+  parent?: { full_name: string; default_branch: string };
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  html_url: string;
+  created_at: string;
+  pull_request: { merged_at: string | null };
+}
+
+export interface GitHubCommit {
+  sha: string;
+  author: { login: string } | null;
+  commit: { author: { date: string } };
+}
+
+export class GitHubApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+export interface GitHubClient {
+  // URL the user is sent to for the OAuth `read:user` grant
+  getAuthorizeUrl(state: string): string;
+  // Exchange an OAuth authorization code for the user it belongs to
+  getUserFromCode(code: string): Promise<GitHubUser>;
+  getUserById(userId: string): Promise<GitHubUser | undefined>;
+  hasStarred(login: string, owner: string, repo: string): Promise<boolean>;
+  findMergedPullRequests(login: string, owner: string, repo: string, since?: Date): Promise<GitHubPullRequest[]>;
+  // The user's fork of `owner/repo`, looked up under the repository's own name
+  findFork(login: string, owner: string, repo: string): Promise<GitHubRepository | undefined>;
+  // Commits by `login` on the fork's default branch that are not in the parent
+  findForkCommits(fork: GitHubRepository, login: string): Promise<GitHubCommit[]>;
+  // Contributions between `from` and `to`; GitHub caps the range at one year
+  getContributionCount(login: string, from: Date, to: Date): Promise<number>;
+}
+
+const DEFAULT_BASE_URL = 'https://api.github.com';
+const DEFAULT_OAUTH_BASE_URL = 'https://github.com/login/oauth';
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Create a GitHub REST/GraphQL client with rate-limit-aware retries.
+ * When the primary or secondary rate limit is hit it waits until `x-ratelimit-reset`
+ * (or `retry-after`); on 5xx it backs off exponentially.
+ */
+export function createGitHubClient(options: GitHubClientOptions): GitHubClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const oauthBaseUrl = (options.oauthBaseUrl ?? DEFAULT_OAUTH_BASE_URL).replace(/\/$/, '');
+  const httpClient: GitHubHttpClient = options.httpClient ?? ((url, init) => fetch(url, init));
+  const maxRetries = options.maxRetries ?? 3;
+  const maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60_000;
+  const maxPages = options.maxPages ?? 10;
+
+  const request = async (
+    method: string,
+    url: string,
+    headers: Record<string, string> = {},
+    body?: string
+  ): Promise<any> => {
+    const allHeaders: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+      ...headers,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await httpClient(url, { method, headers: allHeaders, body });
+      if (response.ok) {
+        return response.json();
+      }
+
+      // GitHub reports exhausted rate limits as 403 as well as 429
+      const rateLimited =
+        response.status === 429 ||
+        (response.status === 403 &&
+          (response.headers.get('x-ratelimit-remaining') === '0' || !!response.headers.get('retry-after')));
+      const retryable = rateLimited || response.status >= 500;
+      if (!retryable || attempt >= maxRetries) {
+        throw new GitHubApiError(`GitHub API request failed: ${response.status} ${url}`, response.status);
+      }
+
+      let waitMs = 1000 * 2 ** attempt;
+      if (rateLimited) {
+        const retryAfter = Number(response.headers.get('retry-after'));
+        const reset = Number(response.headers.get('x-ratelimit-reset'));
+        if (retryAfter) waitMs = retryAfter * 1000;
+        else if (reset) waitMs = Math.max(0, reset * 1000 - Date.now()) + 1000;
+        if (waitMs > maxRateLimitWaitMs) {
+          throw new GitHubApiError('GitHub API rate limit exceeded', 429);
+        }
+      }
+      await sleep(waitMs);
+    }
+  };
+
+  const get = (path: string, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams(params).toString();
+    return request('GET', `${baseUrl}${path}${query ? `?${query}` : ''}`);
+  };
+
+  const getOrUndefined = async (path: string) => {
+    try {
+      return await get(path);
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) return undefined;
+      throw error;
+    }
+  };
+
+  const segment = encodeURIComponent;
+
+  return {
+    getAuthorizeUrl(state) {
+      const query = new URLSearchParams({
+        client_id: options.clientId,
+        redirect_uri: options.redirectUri,
+        scope: 'read:user',
+        state,
+        allow_signup: 'false',
+      });
+      return `${oauthBaseUrl}/authorize?${query}`;
+    },
+
+    async getUserFromCode(code) {
+      const token = await request(
+        'POST',
+        `${oauthBaseUrl}/access_token`,
+        { Accept: 'application/json', 'Content-Type': 'application/json' },
+        JSON.stringify({
+          client_id: options.clientId,
+          client_secret: options.clientSecret,
+          code,
+          redirect_uri: options.redirectUri,
+        })
+      );
+      if (!token.access_token) {
+        throw new GitHubApiError(`GitHub OAuth code exchange failed: ${token.error ?? 'no access token'}`, 401);
+      }
+      return request('GET', `${baseUrl}/user`, { Authorization: `Bearer ${token.access_token}` });
+    },
+
+    async getUserById(userId) {
+      return getOrUndefined(`/user/${segment(userId)}`);
+    },
+
+    async hasStarred(login, owner, repo) {
+      const fullName = `${owner}/${repo}`.toLowerCase();
+      for (let page = 1; page <= maxPages; page++) {
+        const starred: GitHubRepository[] = await get(`/users/${segment(login)}/starred`, {
+          per_page: '100',
+          page: String(page),
+        });
+        if (starred.some(repository => repository.full_name.toLowerCase() === fullName)) return true;
+        if (starred.length < 100) return false;
+      }
+      return false;
+    },
+
+    async findMergedPullRequests(login, owner, repo, since) {
+      const qualifiers = [`repo:${owner}/${repo}`, 'is:pr', 'is:merged', `author:${login}`];
+      if (since) qualifiers.push(`merged:>=${since.toISOString().slice(0, 10)}`);
+      const body = await get('/search/issues', { q: qualifiers.join(' '), per_page: '100' });
+      return body.items ?? [];
+    },
+
+    async findFork(login, owner, repo) {
+      const fork: GitHubRepository | undefined = await getOrUndefined(`/repos/${segment(login)}/${segment(repo)}`);
+      if (!fork?.fork || fork.parent?.full_name.toLowerCase() !== `${owner}/${repo}`.toLowerCase()) {
+        return undefined;
+      }
+      return fork;
+    },
+
+    async findForkCommits(fork, login) {
+      if (!fork.parent) return [];
+      const head = `${fork.owner.login}:${fork.default_branch}`;
+      const comparison = await get(
+        `/repos/${fork.parent.full_name}/compare/${segment(fork.parent.default_branch)}...${segment(head)}`,
+        { per_page: '100' }
+      );
+      return (comparison.commits as GitHubCommit[]).filter(
+        commit => commit.author?.login.toLowerCase() === login.toLowerCase()
+      );
+    },
+
+    async getContributionCount(login, from, to) {
+      const body = await request(
+        'POST',
+        `${baseUrl}/graphql`,
+        { 'Content-Type': 'application/json' },
+        JSON.stringify({
+          query: `query($login: String!, $from: DateTime!, $to: DateTime!) {
+            user(login: $login) { contributionsCollection(from: $from, to: $to) { contributionCalendar { totalContributions } } }
+          }`,
+          variables: { login, from: from.toISOString(), to: to.toISOString() },
+        })
+      );
+      return body.data?.user?.contributionsCollection.contributionCalendar.totalContributions ?? 0;
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import { createGitHubClient, GitHubClient } from './github-client';
+import { OAuthLinkProvider } from './social-linking';
+
+export const GITHUB_ACTIONS = ['star', 'merged_pr', 'fork_commit', 'account'] as const;
+export type GitHubAction = (typeof GITHUB_ACTIONS)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface GitHubActionRequest {
+  action: GitHubAction;
+  // Linked GitHub account ID; logins can be renamed, IDs cannot
+  userId: string;
+  // Repository the action targets (star, merged_pr, fork_commit)
+  owner?: string;
+  repo?: string;
+  // Only count PRs merged and commits authored after this time, in unix seconds
+  since?: number;
+  // Account requirements (account)
+  minAccountAgeDays?: number;
+  // Contributions over the past year
+  minContributions?: number;
+}
+
+export interface GitHubActionResult {
+  verified: boolean;
+  details: string;
+}
+
+/**
+ * Build a GitHub client from GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET, GITHUB_REDIRECT_URI and GITHUB_TOKEN.
+ * GITHUB_API_BASE_URL points it at a mock server for local testing.
+ */
+export function getGitHubClient(): GitHubClient {
+  const { GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET, GITHUB_REDIRECT_URI } = process.env;
+  if (!GITHUB_CLIENT_ID || !GITHUB_CLIENT_SECRET || !GITHUB_REDIRECT_URI) {
+    throw new Error('GitHub OAuth credentials are not defined');
+  }
+  return createGitHubClient({
+    clientId: GITHUB_CLIENT_ID,
+    clientSecret: GITHUB_CLIENT_SECRET,
+    redirectUri: GITHUB_REDIRECT_URI,
+    token: process.env.GITHUB_TOKEN,
+    baseUrl: process.env.GITHUB_API_BASE_URL,
+  });
+}
+
+/**
+ * Check a developer-campaign action for a GitHub account
+ */
+export async function checkGitHubAction(
+  client: GitHubClient,
+  request: GitHubActionRequest
+): Promise<GitHubActionResult> {
+  const user = await client.getUserById(request.userId);
+  if (!user) {
+    return { verified: false, details: 'GitHub account not found' };
+  }
+
+  if (request.action === 'account') {
+    const ageDays = Math.floor((Date.now() - Date.parse(user.created_at)) / DAY_MS);
+    if (ageDays < (request.minAccountAgeDays ?? 0)) {
+      return { verified: false, details: `Account is ${ageDays} days old, ${request.minAccountAgeDays} required` };
+    }
+    if (request.minContributions) {
+      const to = new Date();
+      const contributions = await client.getContributionCount(user.login, new Date(to.getTime() - 365 * DAY_MS), to);
+      if (contributions < request.minContributions) {
+        return {
+          verified: false,
+          details: `${contributions} contributions in the past year, ${request.minContributions} required`,
+        };
+      }
+    }
+    return { verified: true, details: 'GitHub account requirements met' };
+  }
+
+  if (!request.owner || !request.repo) {
+    return { verified: false, details: 'Missing repository' };
+  }
+  const repository = `${request.owner}/${request.repo}`;
+  const since = request.since !== undefined ? new Date(request.since * 1000) : undefined;
+
+  switch (request.action) {
+    case 'star': {
+      const verified = await client.hasStarred(user.login, request.owner, request.repo);
+      return { verified, details: verified ? `Starred ${repository}` : `${repository} not starred` };
+    }
+    case 'merged_pr': {
+      const pullRequests = await client.findMergedPullRequests(user.login, request.owner, request.repo, since);
+      return pullRequests.length > 0
+        ? { verified: true, details: `${pullRequests.length} merged pull request(s) in ${repository}` }
+        : { verified: false, details: `No merged pull request in ${repository}` };
+    }
+    case 'fork_commit': {
+      const fork = await client.findFork(user.login, request.owner, request.repo);
+      if (!fork) {
+        return { verified: false, details: `${repository} not forked` };
+      }
+      const commits = (await client.findForkCommits(fork, user.login)).filter(
+        commit => !since || Date.parse(commit.commit.author.date) >= since.getTime()
+      );
+      return commits.length > 0
+        ? { verified: true, details: `${commits.length} commit(s) on fork ${fork.full_name}` }
+        : { verified: false, details: `No commits on fork ${fork.full_name}` };
+    }
+  }
+}
+
+/**
+ * GitHub as an OAuth link provider for wallet↔account linking
+ */
+export function toGitHubLinkProvider(client: GitHubClient): OAuthLinkProvider {
+  return {
+    getAuthorizeUrl: state => client.getAuthorizeUrl(state),
+    async getAccountFromCode(code) {
+      const user = await client.getUserFromCode(code);
+      return { accountId: String(user.id), handle: user.login };
+    },
+  };
+}
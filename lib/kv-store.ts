@@ -0,0 +1,158 @@
+import fs from 'fs';
+import path from 'path';
+import { downloadFromKV, uploadToKV } from './zg-storage';
+
+/**
+ * Key-value persistence for sybil and oracle state, organized in streams
+ */
+export interface KeyValueStore {
+  // The value under (stream, key), or undefined if there is none
+  get(streamId: string, key: string): Promise<string | undefined>;
+  set(streamId: string, key: string, value: string): Promise<void>;
+}
+
+export const KV_BACKENDS = ['0g', 'memory', 'file'] as const;
+export type KvBackend = (typeof KV_BACKENDS)[number];
+
+/**
+ * 0G KV: writes go through the flow contract, reads through the KV node at `kvNodeUrl`
+ */
+export function createZgKeyValueStore(options: { kvNodeUrl?: string } = {}): KeyValueStore {
+  return {
+    async get(streamId, key) {
+      return (await downloadFromKV(streamId, key, options.kvNodeUrl)) ?? undefined;
+    },
+    set: uploadToKV,
+  };
+}
+
+/**
+ * Process-local store, for tests and offline development
+ */
+export function createMemoryKeyValueStore(): KeyValueStore {
+  const streams = new Map<string, Map<string, string>>();
+  return {
+    async get(streamId, key) {
+      return streams.get(streamId)?.get(key);
+    },
+    async set(streamId, key, value) {
+      const stream = streams.get(streamId) ?? new Map<string, string>();
+      stream.set(key, value);
+      streams.set(streamId, stream);
+    },
+  };
+}
+
+/**
+ * One JSON file per stream under `directory`, for offline development that survives restarts
+ */
+export function createFileKeyValueStore(directory: string): KeyValueStore {
+  // Writes to a stream are serialized so concurrent sets don't overwrite each other
+  const pending = new Map<string, Promise<void>>();
+
+  const streamPath = (streamId: string) => path.join(directory, `${encodeURIComponent(streamId)}.json`);
+  const readStream = (streamId: string): Record<string, string> => {
+    const filePath = streamPath(streamId);
+    return fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+  };
+
+  return {
+    async get(streamId, key) {
+      await pending.get(streamId);
+      return readStream(streamId)[key];
+    },
+    set(streamId, key, value) {
+      const write = (pending.get(streamId) ?? Promise.resolve())
+        .catch(() => undefined)
+        .then(() => {
+          fs.mkdirSync(directory, { recursive: true });
+          const filePath = streamPath(streamId);
+          const tmpPath = `${filePath}.tmp`;
+          fs.writeFileSync(tmpPath, JSON.stringify({ ...readStream(streamId), [key]: value }));
+          fs.renameSync(tmpPath, filePath);
+        });
+      pending.set(streamId, write);
+      return write;
+    },
+  };
+}
+
+/**
+ * Build the store selected by KV_BACKEND (`0g`, `memory` or `file`; defaults to `0g`)
+ */
+export function loadKeyValueStore(env: NodeJS.ProcessEnv = process.env): KeyValueStore {
+  const backend = (env.KV_BACKEND || '0g') as KvBackend;
+  switch (backend) {
+    case '0g':
+      if (!env.ZG_KV_NODE_URL) {
+        throw new Error('ZG_KV_NODE_URL must be set to use the 0g KV backend');
+      }
+      return createZgKeyValueStore({ kvNodeUrl: env.ZG_KV_NODE_URL });
+    case 'memory':
+      return createMemoryKeyValueStore();
+    case 'file':
+      return createFileKeyValueStore(env.KV_FILE_DIRECTORY || path.join(process.cwd(), '.kv'));
+    default:
+      throw new Error(`Unsupported KV_BACKEND: ${backend}`);
+  }
+}
+
+let defaultStore: KeyValueStore | undefined;
+
+/**
+ * Shared store used by the sybil and oracle modules
+ */
+export function getKeyValueStore(): KeyValueStore {
+  if (!defaultStore) {
+    defaultStore = loadKeyValueStore();
+  }
+  return defaultStore;
+}
+
+/**
+ * Replace the shared store, e.g. with an in-memory one in tests
+ */
+export function setKeyValueStore(store: KeyValueStore) {
+  defaultStore = store;
+}
+
+/**
+ * 数値をKVストレージに保存
+ */
+export async function setNumber(streamId: string, key: string, value: number) {
+  await getKeyValueStore().set(streamId, key, value.toString());
+}
+
+/**
+ * KVストレージから数値を取得
+ */
+export async function getNumber(streamId: string, key: string): Promise<number> {
+  const val = await getKeyValueStore().get(streamId, key);
+  if (val === undefined) throw new Error('No value found for key');
+  return Number(val);
+}
+
+/**
+ * 任意のJSONデータをKVストレージに保存
+ */
+export async function setJson(streamId: string, key: string, obj: any) {
+  await getKeyValueStore().set(streamId, key, JSON.stringify(obj));
+}
+
+/**
+ * KVストレージからJSONデータを取得
+ */
+export async function getJson<T>(streamId: string, key: string): Promise<T> {
+  const val = await getKeyValueStore().get(streamId, key);
+  if (val === undefined) throw new Error('No value found for key');
+  return JSON.parse(val) as T;
+}
+
+/**
+ * The JSON value under a key, or undefined if there is none. Read failures still reject,
+ * so callers can tell a missing key from an unreachable store.
+ */
+export async function findJson<T>(streamId: string, key: string): Promise<T | undefined> {
+  const val = await getKeyValueStore().get(streamId, key);
+  return val === undefined ? undefined : (JSON.parse(val) as T);
+}
@@ -0,0 +1,255 @@
+import { ethers } from 'ethers';
+import { arbitrum, base, mainnet, optimism, polygon } from 'wagmi/chains';
+import { getBlockNumberAtTimestamp } from './chains';
+import { ERC20_ABI } from './transaction-verification';
+import { getTokenUsdValue } from './token-pricing';
+
+// Uniswap V3 NonfungiblePositionManager deployments
+export const POSITION_MANAGERS: Record<number, string> = {
+  [mainnet.id]: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  [polygon.id]: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  [arbitrum.id]: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  [optimism.id]: '0xC36442b4a4522E871399CD717aBDD847Ab11FE88',
+  [base.id]: '0x03a520b32C04BF3bEEf7BEb72E919cf822Ed34f1',
+};
+
+export const LIQUIDITY_EVENTS_ABI = [
+  // Uniswap V2 pair
+  'event Mint(address indexed sender, uint256 amount0, uint256 amount1)',
+  // Uniswap V3 pool
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  // NonfungiblePositionManager
+  'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+];
+
+const POOL_ABI = ['function token0() view returns (address)', 'function token1() view returns (address)'];
+
+const liquidityInterface = new ethers.Interface(LIQUIDITY_EVENTS_ABI);
+const V2_MINT_TOPIC = ethers.id('Mint(address,uint256,uint256)');
+const V3_MINT_TOPIC = ethers.id('Mint(address,address,int24,int24,uint128,uint256,uint256)');
+const INCREASE_LIQUIDITY_TOPIC = ethers.id('IncreaseLiquidity(uint256,uint128,uint256,uint256)');
+const DECREASE_LIQUIDITY_TOPIC = ethers.id('DecreaseLiquidity(uint256,uint128,uint256,uint256)');
+// ERC-20 LP token and ERC-721 position transfers share this topic
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// Keep eth_getLogs ranges within common RPC provider limits
+const MAX_LOG_BLOCK_RANGE = 5000;
+
+export interface LiquidityVerificationOptions {
+  walletAddress: string;
+  chainId: number;
+  pool: string;
+  minValueUsd?: number;
+  // How long the position must stay open after the mint
+  minDurationSeconds: number;
+  positionManager?: string;
+}
+
+export interface LiquidityPosition {
+  version: 'v2' | 'v3';
+  // V3 position NFT ID
+  tokenId?: bigint;
+  // V2 LP tokens or V3 liquidity units minted
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+  valueUsd?: number;
+  mintedAt: number;
+  mintTransactionHash: string;
+  // Liquidity removed before the minimum duration elapsed
+  removedLiquidity: bigint;
+}
+
+export interface LiquidityVerificationResult {
+  verified: boolean;
+  details: string;
+  position?: LiquidityPosition;
+  // Set while the minimum duration is still running: unix seconds after which to verify again
+  pendingUntil?: number;
+}
+
+interface MintedPosition {
+  version: 'v2' | 'v3';
+  tokenId?: bigint;
+  liquidity: bigint;
+  amount0: bigint;
+  amount1: bigint;
+}
+
+/**
+ * Find the liquidity the wallet added to `pool` in a mint transaction
+ */
+export function findPositionMint(
+  receipt: ethers.TransactionReceipt,
+  pool: string,
+  walletAddress: string,
+  positionManager?: string
+): MintedPosition | undefined {
+  const poolAddress = pool.toLowerCase();
+  const wallet = walletAddress.toLowerCase();
+  const walletTopic = ethers.zeroPadValue(wallet, 32);
+
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== poolAddress) continue;
+
+    if (log.topics[0] === V2_MINT_TOPIC) {
+      // LP tokens are minted by the pair itself, from the zero address to the provider
+      const lpMint = receipt.logs.find(
+        lp =>
+          lp.address.toLowerCase() === poolAddress &&
+          lp.topics[0] === TRANSFER_TOPIC &&
+          lp.topics[1] === ethers.zeroPadValue(ethers.ZeroAddress, 32) &&
+          lp.topics[2] === walletTopic
+      );
+      if (!lpMint) continue;
+      const { amount0, amount1 } = liquidityInterface.parseLog(log)!.args;
+      return { version: 'v2', liquidity: BigInt(lpMint.data), amount0, amount1 };
+    }
+
+    if (log.topics[0] === V3_MINT_TOPIC && positionManager) {
+      const manager = positionManager.toLowerCase();
+      const managerLogs = receipt.logs.filter(managerLog => managerLog.address.toLowerCase() === manager);
+      // New positions mint an NFT to the provider; IncreaseLiquidity carries the same token ID
+      const nftMint = managerLogs.find(
+        nft =>
+          nft.topics[0] === TRANSFER_TOPIC &&
+          nft.topics[1] === ethers.zeroPadValue(ethers.ZeroAddress, 32) &&
+          nft.topics[2] === walletTopic
+      );
+      if (!nftMint) continue;
+      const tokenId = BigInt(nftMint.topics[3]);
+      const increase = managerLogs.find(
+        managerLog => managerLog.topics[0] === INCREASE_LIQUIDITY_TOPIC && BigInt(managerLog.topics[1]) === tokenId
+      );
+      if (!increase) continue;
+      const { liquidity, amount0, amount1 } = liquidityInterface.parseLog(increase)!.args;
+      return { version: 'v3', tokenId, liquidity, amount0, amount1 };
+    }
+  }
+  return undefined;
+}
+
+async function sumRemovedLiquidity(
+  provider: ethers.Provider,
+  minted: MintedPosition,
+  options: LiquidityVerificationOptions,
+  fromBlock: number,
+  toBlock: number
+): Promise<bigint> {
+  const filter =
+    minted.version === 'v3'
+      ? { address: options.positionManager, topics: [DECREASE_LIQUIDITY_TOPIC, ethers.toBeHex(minted.tokenId!, 32)] }
+      : { address: options.pool, topics: [TRANSFER_TOPIC, ethers.zeroPadValue(options.walletAddress, 32)] };
+
+  let removed = BigInt(0);
+  for (let start = fromBlock; start <= toBlock; start += MAX_LOG_BLOCK_RANGE) {
+    const logs = await provider.getLogs({
+      ...filter,
+      fromBlock: start,
+      toBlock: Math.min(start + MAX_LOG_BLOCK_RANGE - 1, toBlock),
+    });
+    for (const log of logs) {
+      // V2: any LP token leaving the wallet counts as removed (burned or moved elsewhere)
+      removed += minted.version === 'v3' ? liquidityInterface.parseLog(log)!.args.liquidity : BigInt(log.data);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Verify a liquidity provision: the mint transaction added liquidity to `pool`,
+ * the position was worth at least `minValueUsd` at mint time, and it stayed open
+ * for `minDurationSeconds` afterwards. Until that duration has passed the result
+ * is pending (`pendingUntil`), not a failure.
+ */
+export async function verifyLiquidityProvision(
+  provider: ethers.Provider,
+  txHash: string,
+  options: LiquidityVerificationOptions
+): Promise<LiquidityVerificationResult> {
+  const positionManager = options.positionManager ?? POSITION_MANAGERS[options.chainId];
+
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt || receipt.status !== 1) {
+    return { verified: false, details: 'Mint transaction not found or reverted' };
+  }
+  if (receipt.from.toLowerCase() !== options.walletAddress.toLowerCase()) {
+    return { verified: false, details: 'Mint transaction not sent by wallet' };
+  }
+
+  const minted = findPositionMint(receipt, options.pool, options.walletAddress, positionManager);
+  if (!minted) {
+    return { verified: false, details: 'No liquidity added to the task pool' };
+  }
+
+  const mintBlock = await provider.getBlock(receipt.blockNumber);
+  if (!mintBlock) {
+    return { verified: false, details: 'Mint block not found' };
+  }
+
+  const position: LiquidityPosition = {
+    ...minted,
+    mintedAt: mintBlock.timestamp,
+    mintTransactionHash: receipt.hash,
+    removedLiquidity: BigInt(0),
+  };
+
+  if (options.minValueUsd !== undefined) {
+    const pool = new ethers.Contract(options.pool, POOL_ABI, provider);
+    const [token0, token1]: string[] = await Promise.all([pool.token0(), pool.token1()]);
+    const [decimals0, decimals1] = await Promise.all(
+      [token0, token1].map(async token => Number(await new ethers.Contract(token, ERC20_ABI, provider).decimals()))
+    );
+    const [value0, value1] = await Promise.all([
+      getTokenUsdValue(provider, options.chainId, token0, minted.amount0, decimals0, receipt.blockNumber),
+      getTokenUsdValue(provider, options.chainId, token1, minted.amount1, decimals1, receipt.blockNumber),
+    ]);
+    if (value0 === undefined && value1 === undefined) {
+      return { verified: false, details: 'Unable to price pool tokens', position };
+    }
+    // Balanced positions hold roughly equal value on both sides; price from either side if one is unknown
+    position.valueUsd = value0 !== undefined && value1 !== undefined ? value0 + value1 : 2 * (value0 ?? value1)!;
+    if (position.valueUsd < options.minValueUsd) {
+      return {
+        verified: false,
+        details: `Position value $${position.valueUsd.toFixed(2)} below minimum $${options.minValueUsd}`,
+        position,
+      };
+    }
+  }
+
+  const requiredUntil = mintBlock.timestamp + options.minDurationSeconds;
+  const latest = await provider.getBlock('latest');
+  if (!latest || latest.timestamp < requiredUntil) {
+    return {
+      verified: false,
+      details: 'Minimum liquidity duration has not elapsed yet',
+      position,
+      pendingUntil: requiredUntil,
+    };
+  }
+
+  const untilBlock = (await getBlockNumberAtTimestamp(provider, requiredUntil + 1)) - 1;
+  position.removedLiquidity = await sumRemovedLiquidity(
+    provider,
+    minted,
+    { ...options, positionManager },
+    receipt.blockNumber,
+    untilBlock
+  );
+
+  const remaining = minted.liquidity - position.removedLiquidity;
+  if (remaining <= BigInt(0)) {
+    return { verified: false, details: 'Liquidity removed before minimum duration', position };
+  }
+  if (options.minValueUsd !== undefined) {
+    // Partial removals must leave the remaining position above the minimum
+    const remainingValue = (position.valueUsd! * Number(remaining)) / Number(minted.liquidity);
+    if (remainingValue < options.minValueUsd) {
+      return { verified: false, details: 'Position reduced below minimum value before minimum duration', position };
+    }
+  }
+
+  return { verified: true, details: 'Liquidity provision verified', position };
+}
@@ -0,0 +1,191 @@
+import { ethers } from 'ethers';
+import { getBlockNumberAtTimestamp } from './chains';
+
+export const NFT_ABI = [
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function balanceOf(address account, uint256 id) view returns (uint256)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+  'event TransferSingle(address indexed operator, address indexed from, address indexed to, uint256 id, uint256 value)',
+  'event TransferBatch(address indexed operator, address indexed from, address indexed to, uint256[] ids, uint256[] values)',
+];
+
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+const nftInterface = new ethers.Interface(NFT_ABI);
+const TRANSFER_TOPIC = nftInterface.getEvent('Transfer')!.topicHash;
+const TRANSFER_SINGLE_TOPIC = nftInterface.getEvent('TransferSingle')!.topicHash;
+const TRANSFER_BATCH_TOPIC = nftInterface.getEvent('TransferBatch')!.topicHash;
+
+// Marketplace settlement contracts a purchase must go through (shared across EVM chains)
+export const NFT_MARKETPLACES = [
+  '0x00000000000000ADc04C56Bf30aC9d3c0aAF14dC', // Seaport 1.5
+  '0x0000000000000068F116a894984e2DB1123eB395', // Seaport 1.6
+  '0x000000000000Ad05Ccc4F10045630fb830B95127', // Blur Marketplace
+];
+
+// Keep eth_getLogs ranges within common RPC provider limits
+const MAX_LOG_BLOCK_RANGE = 5000;
+
+export type NftStandard = 'erc721' | 'erc1155';
+export type NftTaskMode = 'mint' | 'hold' | 'purchase';
+
+export interface NftVerificationOptions {
+  walletAddress: string;
+  collection: string;
+  mode: NftTaskMode;
+  standard?: NftStandard;
+  // ERC-1155 token IDs (required for `hold`); restricts ERC-721 `mint`/`purchase` when set
+  tokenIds?: bigint[];
+  // Tokens required: minted, held or purchased
+  minCount: number;
+  // Task window for `mint` and `purchase`, in unix seconds
+  startTime: number;
+  endTime: number;
+  // Block the `hold` balance is read at; latest when omitted
+  snapshotBlock?: number;
+  marketplaces?: string[];
+}
+
+export interface NftTransfer {
+  transactionHash: string;
+  blockNumber: number;
+  from: string;
+  tokenId: bigint;
+  amount: bigint;
+}
+
+export interface NftVerificationResult {
+  verified: boolean;
+  details: string;
+  standard?: NftStandard;
+  matched: NftTransfer[];
+  balance?: bigint;
+}
+
+/**
+ * Detect whether a collection is ERC-721 or ERC-1155 through ERC-165
+ */
+export async function detectNftStandard(provider: ethers.Provider, collection: string): Promise<NftStandard> {
+  const contract = new ethers.Contract(collection, NFT_ABI, provider);
+  if (await contract.supportsInterface(ERC1155_INTERFACE_ID).catch(() => false)) return 'erc1155';
+  if (await contract.supportsInterface(ERC721_INTERFACE_ID).catch(() => false)) return 'erc721';
+  throw new Error('Collection does not implement ERC-721 or ERC-1155');
+}
+
+/**
+ * Decode ERC-721 and ERC-1155 transfer logs into per-token transfers
+ */
+export function decodeNftTransfers(log: ethers.Log): NftTransfer[] {
+  const base = { transactionHash: log.transactionHash, blockNumber: log.blockNumber };
+
+  // ERC-20 Transfer shares the topic but has no indexed token ID
+  if (log.topics[0] === TRANSFER_TOPIC && log.topics.length === 4) {
+    const { from, tokenId } = nftInterface.parseLog(log)!.args;
+    return [{ ...base, from, tokenId, amount: BigInt(1) }];
+  }
+  if (log.topics[0] === TRANSFER_SINGLE_TOPIC) {
+    const { from, id, value } = nftInterface.parseLog(log)!.args;
+    return [{ ...base, from, tokenId: id, amount: value }];
+  }
+  if (log.topics[0] === TRANSFER_BATCH_TOPIC) {
+    // Positional: `values` collides with Result.values()
+    const [, from, , ids, amounts] = nftInterface.parseLog(log)!.args;
+    return (ids as bigint[]).map((id, index) => ({ ...base, from, tokenId: id, amount: amounts[index] as bigint }));
+  }
+  return [];
+}
+
+async function findIncomingTransfers(
+  provider: ethers.Provider,
+  options: NftVerificationOptions,
+  standard: NftStandard
+): Promise<NftTransfer[]> {
+  const walletTopic = ethers.zeroPadValue(options.walletAddress, 32);
+  const fromTopic = options.mode === 'mint' ? ethers.zeroPadValue(ethers.ZeroAddress, 32) : null;
+  const topics =
+    standard === 'erc721'
+      ? [TRANSFER_TOPIC, fromTopic, walletTopic]
+      : [[TRANSFER_SINGLE_TOPIC, TRANSFER_BATCH_TOPIC], null, fromTopic, walletTopic];
+
+  const fromBlock = await getBlockNumberAtTimestamp(provider, options.startTime);
+  const toBlock = Math.min(
+    (await getBlockNumberAtTimestamp(provider, options.endTime + 1)) - 1,
+    await provider.getBlockNumber()
+  );
+
+  const transfers: NftTransfer[] = [];
+  for (let start = fromBlock; start <= toBlock; start += MAX_LOG_BLOCK_RANGE) {
+    const logs = await provider.getLogs({
+      address: options.collection,
+      topics,
+      fromBlock: start,
+      toBlock: Math.min(start + MAX_LOG_BLOCK_RANGE - 1, toBlock),
+    });
+    logs.forEach(log => transfers.push(...decodeNftTransfers(log)));
+  }
+
+  return options.tokenIds ? transfers.filter(transfer => options.tokenIds!.includes(transfer.tokenId)) : transfers;
+}
+
+/**
+ * Verify an NFT task:
+ * - `mint`: the wallet minted at least `minCount` tokens from the collection during the task window
+ * - `hold`: the wallet holds at least `minCount` tokens at the snapshot block
+ * - `purchase`: the wallet received at least `minCount` tokens through a marketplace trade during the task window
+ */
+export async function verifyNftTask(
+  provider: ethers.Provider,
+  options: NftVerificationOptions
+): Promise<NftVerificationResult> {
+  const standard = options.standard ?? (await detectNftStandard(provider, options.collection));
+  const required = BigInt(options.minCount);
+
+  if (options.mode === 'hold') {
+    const contract = new ethers.Contract(options.collection, NFT_ABI, provider);
+    const blockTag = options.snapshotBlock ?? 'latest';
+    let balance: bigint;
+    if (standard === 'erc721') {
+      balance = await contract['balanceOf(address)'](options.walletAddress, { blockTag });
+    } else {
+      if (!options.tokenIds?.length) {
+        return { verified: false, details: 'ERC-1155 hold tasks require token IDs', standard, matched: [] };
+      }
+      const balances: bigint[] = await Promise.all(
+        options.tokenIds.map(id => contract['balanceOf(address,uint256)'](options.walletAddress, id, { blockTag }))
+      );
+      balance = balances.reduce((total, value) => total + value, BigInt(0));
+    }
+
+    return balance >= required
+      ? { verified: true, details: `Wallet holds ${balance} tokens`, standard, matched: [], balance }
+      : { verified: false, details: `Wallet holds ${balance} of ${required} required tokens`, standard, matched: [], balance };
+  }
+
+  let matched = await findIncomingTransfers(provider, options, standard);
+
+  if (options.mode === 'purchase') {
+    const marketplaces = (options.marketplaces ?? NFT_MARKETPLACES).map(address => address.toLowerCase());
+    const purchaseTxs = new Set<string>();
+    for (const hash of new Set(matched.map(transfer => transfer.transactionHash))) {
+      const receipt = await provider.getTransactionReceipt(hash);
+      // Aggregators route through the marketplace, which then emits its own fill event
+      const viaMarketplace =
+        !!receipt &&
+        ((!!receipt.to && marketplaces.includes(receipt.to.toLowerCase())) ||
+          receipt.logs.some(log => marketplaces.includes(log.address.toLowerCase())));
+      if (viaMarketplace) {
+        purchaseTxs.add(hash);
+      }
+    }
+    matched = matched.filter(transfer => purchaseTxs.has(transfer.transactionHash));
+  }
+
+  const count = matched.reduce((total, transfer) => total + transfer.amount, BigInt(0));
+  const action = options.mode === 'mint' ? 'minted' : 'purchased';
+  if (count < required) {
+    return { verified: false, details: `${count} of ${required} required tokens ${action}`, standard, matched };
+  }
+  return { verified: true, details: `${count} tokens ${action}`, standard, matched };
+}
@@ -0,0 +1,432 @@
+import { ethers } from 'ethers';
+import fs from 'fs';
+import path from 'path';
+import { parseProofData, VERIFICATION_TYPES, VerificationResult, VerificationType, verifyTask } from './verification-oracle';
+import {
+  isRetryableVerificationError,
+  registerVerifier,
+  RetryableVerificationError,
+  supportsVerificationType,
+  Verifier,
+} from './verifier-registry';
+import {
+  AttestationDomain,
+  buildVerificationAttestation,
+  saveVerificationAttestation,
+  signVerificationAttestation,
+} from './verification-attestation';
+import { archiveEvidenceBundle, buildEvidenceBundle } from './evidence-bundle';
+
+// Human-readable ABI for the parts of VerifierGateway the oracle uses
+export const VERIFIER_GATEWAY_ORACLE_ABI = [
+  'event VerificationRequested(uint256 indexed requestId, uint256 indexed taskId, address indexed user, uint8 verificationType, string proofData)',
+  'function completeVerification(uint256 _requestId, bool _verified, uint256 _sybilScore, string _proofHash)',
+  'function getVerificationRequest(uint256 _requestId) view returns (tuple(uint256 taskId, address user, uint8 verificationType, string proofData, bool processed, tuple(bool verified, uint256 sybilScore, string proofHash, uint256 timestamp, address verifier) result))',
+];
+
+export interface OracleWorkerConfig {
+  rpcUrl: string;
+  gatewayAddress: string;
+  privateKey: string;
+  checkpointPath: string;
+  startBlock?: number;
+  confirmations: number;
+  pollIntervalMs: number;
+  maxBlockRange: number;
+  maxRetries: number;
+  retryDelayMs: number;
+  // Polls a request whose verification keeps failing is tried on before it is dead-lettered
+  maxVerificationAttempts: number;
+  // Delay before a failed request is tried again on a later poll, doubled after each attempt
+  failedRequestDelayMs: number;
+  // Modules whose default export is a CUSTOM_ORACLE verifier (or an array of them)
+  verifierModules: string[];
+}
+
+/**
+ * Last gateway log the worker has fully handled.
+ * Logs at or before (blockNumber, logIndex) are never processed again.
+ */
+export interface OracleCheckpoint {
+  blockNumber: number;
+  logIndex: number;
+  // Requests whose verification is pending or failed, to be verified again once due
+  deferred?: DeferredRequest[];
+  // Requests given up on after maxVerificationAttempts; never retried automatically
+  deadLettered?: DeadLetteredRequest[];
+}
+
+export interface DeferredRequest {
+  // Decimal string, so it survives JSON
+  requestId: string;
+  // Unix ms
+  retryAt: number;
+  // Failed verification attempts so far; absent for requests that are only pending
+  attempts?: number;
+}
+
+export interface DeadLetteredRequest {
+  requestId: string;
+  // Unix ms
+  failedAt: number;
+  reason: string;
+}
+
+export interface OracleWorker {
+  stop: () => Promise<void>;
+}
+
+/**
+ * Read worker configuration from environment variables
+ */
+export function loadOracleWorkerConfig(env: NodeJS.ProcessEnv = process.env): OracleWorkerConfig {
+  const privateKey = env.ORACLE_PRIVATE_KEY || env.OG_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('ORACLE_PRIVATE_KEY (or OG_PRIVATE_KEY) is not defined');
+  }
+  const gatewayAddress = env.NEXT_PUBLIC_VERIFIER_GATEWAY_ADDRESS;
+  if (!gatewayAddress || !ethers.isAddress(gatewayAddress)) {
+    throw new Error('NEXT_PUBLIC_VERIFIER_GATEWAY_ADDRESS is not a valid address');
+  }
+
+  return {
+    rpcUrl: env.NEXT_PUBLIC_OG_CHAIN_RPC_URL || 'https://evmrpc-testnet.0g.ai',
+    gatewayAddress,
+    privateKey,
+    checkpointPath: env.ORACLE_CHECKPOINT_PATH || path.join(process.cwd(), '.oracle-checkpoint.json'),
+    startBlock: env.ORACLE_START_BLOCK ? parseInt(env.ORACLE_START_BLOCK, 10) : undefined,
+    confirmations: parseInt(env.ORACLE_CONFIRMATIONS || '2', 10),
+    pollIntervalMs: parseInt(env.ORACLE_POLL_INTERVAL_MS || '5000', 10),
+    maxBlockRange: parseInt(env.ORACLE_MAX_BLOCK_RANGE || '1000', 10),
+    maxRetries: parseInt(env.ORACLE_MAX_RETRIES || '5', 10),
+    retryDelayMs: parseInt(env.ORACLE_RETRY_DELAY_MS || '1000', 10),
+    maxVerificationAttempts: parseInt(env.ORACLE_MAX_VERIFICATION_ATTEMPTS || '5', 10),
+    failedRequestDelayMs: parseInt(env.ORACLE_FAILED_REQUEST_DELAY_MS || '60000', 10),
+    verifierModules: (env.ORACLE_VERIFIER_MODULES || '')
+      .split(',')
+      .map(specifier => specifier.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Load the persisted checkpoint, or undefined on first run
+ */
+export function readCheckpoint(checkpointPath: string): OracleCheckpoint | undefined {
+  if (!fs.existsSync(checkpointPath)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(checkpointPath, 'utf-8')) as OracleCheckpoint;
+}
+
+/**
+ * Persist the checkpoint atomically so a crash never leaves a truncated file
+ */
+export function writeCheckpoint(checkpointPath: string, checkpoint: OracleCheckpoint) {
+  const tmpPath = `${checkpointPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(checkpoint));
+  fs.renameSync(tmpPath, checkpointPath);
+}
+
+/**
+ * Map a VerifierGateway.VerificationType index to the oracle's verification type
+ */
+export function toVerificationType(index: number): VerificationType | undefined {
+  return VERIFICATION_TYPES[index];
+}
+
+/**
+ * Load advertiser verifier modules and register their verifiers.
+ * Modules may only add CUSTOM_ORACLE verifiers; built-in verification types cannot be overridden.
+ */
+export async function loadVerifierModules(specifiers: string[]) {
+  for (const specifier of specifiers) {
+    // Relative paths resolve against the worker's working directory, like the checkpoint path
+    const mod = await import(specifier.startsWith('.') ? path.resolve(specifier) : specifier);
+    const exported: Verifier | Verifier[] = mod.default ?? mod.verifier;
+    const moduleVerifiers = Array.isArray(exported) ? exported : [exported];
+
+    for (const verifier of moduleVerifiers) {
+      if (!verifier?.id || typeof verifier.verify !== 'function') {
+        throw new Error(`${specifier} does not export a verifier`);
+      }
+      if (verifier.verificationTypes.some(type => type !== 'CUSTOM_ORACLE')) {
+        throw new Error(`${specifier}: verifier ${verifier.id} may only handle CUSTOM_ORACLE requests`);
+      }
+      registerVerifier(verifier);
+      console.log(`[oracle-worker] Registered ${verifier.id} verifier from ${specifier}`);
+    }
+  }
+}
+
+/**
+ * Retry an async operation with exponential backoff
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  maxRetries: number,
+  retryDelayMs: number,
+  shouldRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  let attempt = 0;
+  for (;;) {
+    try {
+      return await operation();
+    } catch (error) {
+      attempt++;
+      if (attempt > maxRetries || !shouldRetry(error)) {
+        throw error;
+      }
+      await sleep(retryDelayMs * 2 ** (attempt - 1));
+    }
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isAfterCheckpoint(log: ethers.EventLog, checkpoint: OracleCheckpoint | undefined): boolean {
+  if (!checkpoint) return true;
+  if (log.blockNumber !== checkpoint.blockNumber) return log.blockNumber > checkpoint.blockNumber;
+  return log.index > checkpoint.logIndex;
+}
+
+function isNonceError(error: unknown): boolean {
+  return ethers.isError(error, 'NONCE_EXPIRED') || ethers.isError(error, 'REPLACEMENT_UNDERPRICED');
+}
+
+function isAlreadyProcessedError(error: unknown): boolean {
+  return ethers.isError(error, 'CALL_EXCEPTION') && error.reason === 'Request already processed';
+}
+
+/**
+ * Start the oracle worker: poll VerifierGateway for VerificationRequested events,
+ * verify each request and submit the result through completeVerification
+ */
+export async function startOracleWorker(config: OracleWorkerConfig): Promise<OracleWorker> {
+  await loadVerifierModules(config.verifierModules);
+
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const wallet = new ethers.Wallet(config.privateKey, provider);
+  const signer = new ethers.NonceManager(wallet);
+  const gateway = new ethers.Contract(config.gatewayAddress, VERIFIER_GATEWAY_ORACLE_ABI, signer);
+  const domain: AttestationDomain = {
+    chainId: Number((await provider.getNetwork()).chainId),
+    verifyingContract: ethers.getAddress(config.gatewayAddress),
+  };
+
+  let checkpoint = readCheckpoint(config.checkpointPath);
+  if (!checkpoint) {
+    const startBlock = config.startBlock ?? (await provider.getBlockNumber());
+    checkpoint = { blockNumber: startBlock - 1, logIndex: Number.MAX_SAFE_INTEGER };
+  }
+  let deferred = checkpoint.deferred ?? [];
+  let deadLettered = checkpoint.deadLettered ?? [];
+  console.log('[oracle-worker] Resuming after block', checkpoint.blockNumber);
+  if (deferred.length > 0) {
+    console.log(`[oracle-worker] ${deferred.length} deferred requests pending`);
+  }
+
+  const saveCheckpoint = (position: { blockNumber: number; logIndex: number }) => {
+    checkpoint = { ...position, deferred, deadLettered };
+    writeCheckpoint(config.checkpointPath, checkpoint);
+  };
+
+  const defer = (requestId: bigint, retryAt: number, attempts?: number) => {
+    const id = requestId.toString();
+    deferred = [...deferred.filter(entry => entry.requestId !== id), { requestId: id, retryAt, attempts }];
+  };
+
+  // A request whose verification keeps failing (e.g. history lookups against a non-archive RPC)
+  // is retried on later polls with backoff, then dead-lettered, so it never blocks the requests after it
+  const handleVerificationFailure = (requestId: bigint, attempts: number, error: RetryableVerificationError) => {
+    if (attempts >= config.maxVerificationAttempts) {
+      const id = requestId.toString();
+      deadLettered = [
+        ...deadLettered.filter(entry => entry.requestId !== id),
+        { requestId: id, failedAt: Date.now(), reason: error.message },
+      ];
+      console.error(`[oracle-worker] Dead-lettering request ${requestId} after ${attempts} attempts:`, error);
+      return;
+    }
+    const retryAt = Date.now() + config.failedRequestDelayMs * 2 ** (attempts - 1);
+    defer(requestId, retryAt, attempts);
+    console.warn(
+      `[oracle-worker] Verifying request ${requestId} failed (attempt ${attempts}), retrying at ${new Date(retryAt).toISOString()}:`,
+      error
+    );
+  };
+
+  let running = true;
+  let wake: (() => void) | undefined;
+
+  const submitResult = async (
+    request: { requestId: bigint; taskId: number; user: string; verificationType: VerificationType; proofData: unknown },
+    result: VerificationResult
+  ) => {
+    const { requestId } = request;
+    const sybilScore = Number.isFinite(result.sybilScore)
+      ? Math.max(0, Math.min(100, Math.round(result.sybilScore)))
+      : 0;
+
+    // Evidence and attestation are published before submitting, so the proof hash on-chain
+    // can always be checked and replayed
+    const bundle = buildEvidenceBundle({ ...request, requestId: requestId.toString() }, { ...result, sybilScore });
+    const evidenceRoot = await withRetry(() => archiveEvidenceBundle(bundle), config.maxRetries, config.retryDelayMs);
+    const signed = await signVerificationAttestation(
+      wallet,
+      buildVerificationAttestation(
+        { ...request, verificationType: VERIFICATION_TYPES.indexOf(request.verificationType) },
+        result,
+        sybilScore,
+        evidenceRoot
+      ),
+      domain
+    );
+    await withRetry(() => saveVerificationAttestation(signed), config.maxRetries, config.retryDelayMs);
+
+    try {
+      await withRetry(
+        async () => {
+          try {
+            const tx = await gateway.completeVerification(requestId, result.verified, sybilScore, signed.proofHash);
+            await tx.wait(config.confirmations);
+            console.log(`[oracle-worker] Request ${requestId} completed. TX:`, tx.hash);
+          } catch (error) {
+            if (isNonceError(error)) {
+              signer.reset();
+            }
+            throw error;
+          }
+        },
+        config.maxRetries,
+        config.retryDelayMs,
+        error => !isAlreadyProcessedError(error)
+      );
+    } catch (error) {
+      if (!isAlreadyProcessedError(error)) throw error;
+      console.log(`[oracle-worker] Request ${requestId} was already processed`);
+    }
+  };
+
+  // `attempts`: failed verification attempts of a deferred request so far
+  const handleRequest = async (requestId: bigint, attempts = 0) => {
+    // The checkpoint can lag the chain after a crash; the gateway is the source of truth
+    const request = await withRetry(
+      () => gateway.getVerificationRequest(requestId),
+      config.maxRetries,
+      config.retryDelayMs
+    );
+    if (request.processed) {
+      console.log(`[oracle-worker] Skipping request ${requestId}: already processed`);
+      return;
+    }
+
+    const { user } = request;
+    const taskId = Number(request.taskId);
+    const type = toVerificationType(Number(request.verificationType));
+    if (!type || !supportsVerificationType(type)) {
+      console.log(
+        `[oracle-worker] Skipping request ${requestId}: unsupported verification type`,
+        type ?? request.verificationType.toString()
+      );
+      return;
+    }
+
+    const parsedProofData = parseProofData(request.proofData);
+    // Only definitive results are submitted; lookups that failed are tried again
+    let result: VerificationResult;
+    try {
+      result = await withRetry(
+        () =>
+          verifyTask({
+            taskId,
+            userId: user,
+            walletAddress: user,
+            proofData: parsedProofData,
+            verificationType: type,
+          }),
+        config.maxRetries,
+        config.retryDelayMs,
+        isRetryableVerificationError
+      );
+    } catch (error) {
+      if (!isRetryableVerificationError(error)) throw error;
+      handleVerificationFailure(requestId, attempts + 1, error);
+      return;
+    }
+    if (result.pendingUntil !== undefined) {
+      defer(requestId, result.pendingUntil);
+      console.log(
+        `[oracle-worker] Request ${requestId} pending until ${new Date(result.pendingUntil).toISOString()}:`,
+        result.details
+      );
+      return;
+    }
+    await submitResult({ requestId, taskId, user, verificationType: type, proofData: parsedProofData }, result);
+  };
+
+  const retryDeferred = async () => {
+    for (const entry of deferred.filter(entry => entry.retryAt <= Date.now())) {
+      if (!running) return;
+      await handleRequest(BigInt(entry.requestId), entry.attempts ?? 0);
+      // A request that is still pending or failing was re-deferred as a new entry
+      deferred = deferred.filter(other => other !== entry);
+      saveCheckpoint(checkpoint!);
+    }
+  };
+
+  const pollOnce = async () => {
+    await retryDeferred();
+
+    const head = await provider.getBlockNumber();
+    const safeHead = head - config.confirmations;
+
+    while (running && checkpoint!.blockNumber < safeHead) {
+      // Re-scan the checkpoint block when it was only partially handled
+      const fromBlock =
+        checkpoint!.logIndex === Number.MAX_SAFE_INTEGER ? checkpoint!.blockNumber + 1 : checkpoint!.blockNumber;
+      const toBlock = Math.min(fromBlock + config.maxBlockRange - 1, safeHead);
+
+      const logs = await withRetry(
+        () => gateway.queryFilter(gateway.filters.VerificationRequested(), fromBlock, toBlock),
+        config.maxRetries,
+        config.retryDelayMs
+      );
+
+      for (const log of logs) {
+        if (!running) return;
+        if (!(log instanceof ethers.EventLog) || !isAfterCheckpoint(log, checkpoint)) continue;
+        await handleRequest(log.args.requestId as bigint);
+        saveCheckpoint({ blockNumber: log.blockNumber, logIndex: log.index });
+      }
+
+      saveCheckpoint({ blockNumber: toBlock, logIndex: Number.MAX_SAFE_INTEGER });
+    }
+  };
+
+  const loop = (async () => {
+    while (running) {
+      try {
+        await pollOnce();
+      } catch (error) {
+        console.error('[oracle-worker] Poll failed, will retry:', error);
+      }
+      if (!running) break;
+      await new Promise<void>(resolve => {
+        wake = resolve;
+        setTimeout(resolve, config.pollIntervalMs);
+      });
+    }
+  })();
+
+  return {
+    stop: async () => {
+      running = false;
+      wake?.();
+      await loop;
+      provider.destroy();
+    },
+  };
+}
@@ -0,0 +1,355 @@
+import { ethers } from 'ethers';
+import { findJson, setJson } from './kv-store';
+import { TwitterClient } from './twitter-client';
+import { RetryableVerificationError } from './verifier-registry';
+
+// KV stream holding challenges and wallet↔handle bindings
+export const SOCIAL_LINK_STREAM_ID = process.env.SOCIAL_LINK_STREAM_ID || ethers.id('homare:social-links');
+
+// How long a challenge stays valid after it is issued
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+export const SOCIAL_PLATFORMS = ['twitter', 'discord', 'github'] as const;
+export type SocialPlatform = (typeof SOCIAL_PLATFORMS)[number];
+
+// Platforms whose account is proven through an OAuth2 grant rather than a posted nonce
+const OAUTH_PLATFORMS: readonly SocialPlatform[] = ['discord', 'github'];
+
+export interface LinkChallenge {
+  walletAddress: string;
+  platform: SocialPlatform;
+  // Claimed handle; OAuth platforms learn it from the grant instead
+  handle?: string;
+  nonce: string;
+  message: string;
+  issuedAt: number;
+  expiresAt: number;
+  // Set once the wallet signature has been checked (OAuth platforms)
+  signature?: string;
+  // keccak256 of the secret in the OAuth state cookie of the browser that started the flow
+  stateHash?: string;
+  // Set once the challenge has linked an account; it cannot be used again
+  consumedAt?: number;
+}
+
+export interface SocialLink {
+  walletAddress: string;
+  platform: SocialPlatform;
+  handle: string;
+  // Platform account ID; handles can be renamed, IDs cannot
+  accountId: string;
+  // Tweet the nonce was posted in; the bio was used when absent
+  proofTweetId?: string;
+  signature: string;
+  linkedAt: number;
+}
+
+/**
+ * OAuth2 provider used to prove account ownership for OAuth platforms
+ */
+export interface OAuthLinkProvider {
+  getAuthorizeUrl(state: string): string;
+  // Exchange an OAuth2 authorization code for the account it belongs to
+  getAccountFromCode(code: string): Promise<{ accountId: string; handle: string }>;
+}
+
+export interface LinkVerificationRequest {
+  walletAddress: string;
+  signature: string;
+  tweetId?: string;
+}
+
+export interface LinkVerificationResult {
+  linked: boolean;
+  details: string;
+  link?: SocialLink;
+}
+
+function normalizeHandle(handle: string) {
+  return handle.replace(/^@/, '').toLowerCase();
+}
+
+function challengeKey(walletAddress: string, platform: SocialPlatform) {
+  return `challenge:${platform}:${walletAddress.toLowerCase()}`;
+}
+
+function linkKey(walletAddress: string, platform: SocialPlatform) {
+  return `link:${platform}:${walletAddress.toLowerCase()}`;
+}
+
+function accountKey(platform: SocialPlatform, accountId: string) {
+  return `account:${platform}:${accountId}`;
+}
+
+/**
+ * Read a record from the link stream; undefined only when the key is missing. A failed read
+ * throws a RetryableVerificationError, so an unreachable store is never taken for "not linked".
+ */
+async function findLinkRecord<T>(key: string): Promise<T | undefined> {
+  try {
+    return await findJson<T>(SOCIAL_LINK_STREAM_ID, key);
+  } catch (error) {
+    throw new RetryableVerificationError('Social link lookup failed', error);
+  }
+}
+
+export function isOAuthPlatform(platform: SocialPlatform) {
+  return OAUTH_PLATFORMS.includes(platform);
+}
+
+/**
+ * httpOnly cookie binding an OAuth link to the browser that started it. SameSite=Lax, since the
+ * provider's redirect to the callback is a cross-site top-level navigation.
+ */
+export function getOAuthStateCookie(platform: SocialPlatform) {
+  return {
+    name: `homare_${platform}_oauth_state`,
+    options: {
+      httpOnly: true,
+      sameSite: 'lax' as const,
+      secure: process.env.NODE_ENV === 'production',
+      path: `/api/social/${platform}/callback`,
+      maxAge: CHALLENGE_TTL_MS / 1000,
+    },
+  };
+}
+
+/**
+ * Build the SIWE-style message the wallet signs to claim a social account
+ */
+export function buildLinkMessage(challenge: Omit<LinkChallenge, 'message'>): string {
+  const account = challenge.handle ? `${challenge.platform} account @${challenge.handle}` : `${challenge.platform} account`;
+  const instructions = isOAuthPlatform(challenge.platform)
+    ? `Authorize with ${challenge.platform} after signing to prove you own it.`
+    : `Post this nonce from @${challenge.handle} (in a tweet or your bio) to prove you own it.`;
+  return [
+    `Homare wants you to link your ${account} to:`,
+    ethers.getAddress(challenge.walletAddress),
+    '',
+    instructions,
+    '',
+    `Nonce: ${challenge.nonce}`,
+    `Issued At: ${new Date(challenge.issuedAt).toISOString()}`,
+    `Expiration Time: ${new Date(challenge.expiresAt).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Issue a link challenge for a wallet and store it until it is verified or expires
+ */
+export async function createLinkChallenge(
+  walletAddress: string,
+  platform: SocialPlatform,
+  handle?: string
+): Promise<LinkChallenge> {
+  const issuedAt = Date.now();
+  const fields = {
+    walletAddress: ethers.getAddress(walletAddress),
+    platform,
+    handle: handle ? normalizeHandle(handle) : undefined,
+    nonce: `homare-${ethers.hexlify(ethers.randomBytes(8)).slice(2)}`,
+    issuedAt,
+    expiresAt: issuedAt + CHALLENGE_TTL_MS,
+  };
+  const challenge: LinkChallenge = { ...fields, message: buildLinkMessage(fields) };
+  await setJson(SOCIAL_LINK_STREAM_ID, challengeKey(walletAddress, platform), challenge);
+  return challenge;
+}
+
+/**
+ * Load the pending challenge for a wallet and check it has not expired
+ */
+export async function getLinkChallenge(
+  walletAddress: string,
+  platform: SocialPlatform
+): Promise<{ challenge?: LinkChallenge; details: string }> {
+  const challenge = await findLinkRecord<LinkChallenge>(challengeKey(walletAddress, platform));
+  if (!challenge) {
+    return { details: 'No link challenge issued for this wallet' };
+  }
+  if (challenge.consumedAt !== undefined) {
+    return { details: 'Link challenge already used' };
+  }
+  if (Date.now() > challenge.expiresAt) {
+    return { details: 'Link challenge expired' };
+  }
+  return { challenge, details: 'Link challenge pending' };
+}
+
+/**
+ * Mark a challenge used once it has linked an account, so it cannot be replayed
+ */
+async function consumeLinkChallenge(challenge: LinkChallenge) {
+  await setJson(SOCIAL_LINK_STREAM_ID, challengeKey(challenge.walletAddress, challenge.platform), {
+    ...challenge,
+    consumedAt: Date.now(),
+  });
+}
+
+/**
+ * Check that the challenge message was signed by the challenged wallet
+ */
+export function isChallengeSignedByWallet(challenge: LinkChallenge, signature: string): boolean {
+  try {
+    return ethers.verifyMessage(challenge.message, signature).toLowerCase() === challenge.walletAddress.toLowerCase();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Store a wallet↔account binding in 0G KV.
+ * One account per wallet and one wallet per account, so an account cannot be farmed across wallets.
+ */
+export async function saveSocialLink(link: SocialLink): Promise<LinkVerificationResult> {
+  const existingWallet = await findLinkRecord<string>(accountKey(link.platform, link.accountId));
+  if (existingWallet && existingWallet.toLowerCase() !== link.walletAddress.toLowerCase()) {
+    return { linked: false, details: 'Account already linked to another wallet' };
+  }
+
+  await setJson(SOCIAL_LINK_STREAM_ID, linkKey(link.walletAddress, link.platform), link);
+  await setJson(SOCIAL_LINK_STREAM_ID, accountKey(link.platform, link.accountId), link.walletAddress);
+  return { linked: true, details: `Linked @${link.handle} to wallet`, link };
+}
+
+/**
+ * Verify a Twitter link challenge: the wallet signed the challenge message and the handle posted
+ * the nonce in `tweetId` (or its bio). On success the binding is stored in 0G KV.
+ */
+export async function verifyTwitterLink(
+  client: TwitterClient,
+  request: LinkVerificationRequest
+): Promise<LinkVerificationResult> {
+  const { challenge, details } = await getLinkChallenge(request.walletAddress, 'twitter');
+  if (!challenge || !challenge.handle) {
+    return { linked: false, details };
+  }
+  if (!isChallengeSignedByWallet(challenge, request.signature)) {
+    return { linked: false, details: 'Challenge not signed by wallet' };
+  }
+
+  const user = await client.getUserByUsername(challenge.handle);
+  if (!user) {
+    return { linked: false, details: 'Twitter account not found' };
+  }
+
+  if (request.tweetId) {
+    const tweet = await client.getTweet(request.tweetId);
+    if (!tweet || tweet.author_id !== user.id) {
+      return { linked: false, details: 'Proof tweet not posted by account' };
+    }
+    if (!tweet.text.includes(challenge.nonce)) {
+      return { linked: false, details: 'Proof tweet does not contain the nonce' };
+    }
+  } else if (!user.description?.includes(challenge.nonce)) {
+    return { linked: false, details: 'Account bio does not contain the nonce' };
+  }
+
+  const result = await saveSocialLink({
+    walletAddress: challenge.walletAddress,
+    platform: 'twitter',
+    handle: user.username.toLowerCase(),
+    accountId: user.id,
+    proofTweetId: request.tweetId,
+    signature: request.signature,
+    linkedAt: Date.now(),
+  });
+  if (result.linked) {
+    await consumeLinkChallenge(challenge);
+  }
+  return result;
+}
+
+/**
+ * Start OAuth linking: check the wallet signed its pending challenge and return the OAuth2 URL.
+ * The OAuth2 `state` carries the wallet and challenge nonce back to the callback; `stateSecret`
+ * goes in the caller's `getOAuthStateCookie` cookie, so only the browser that started the flow
+ * can complete it.
+ */
+export async function startOAuthLink(
+  provider: OAuthLinkProvider,
+  platform: SocialPlatform,
+  walletAddress: string,
+  signature: string
+): Promise<{ authorizeUrl?: string; stateSecret?: string; details: string }> {
+  const { challenge, details } = await getLinkChallenge(walletAddress, platform);
+  if (!challenge) {
+    return { details };
+  }
+  if (!isChallengeSignedByWallet(challenge, signature)) {
+    return { details: 'Challenge not signed by wallet' };
+  }
+
+  // Recorded so the callback can trust the state it receives
+  const stateSecret = ethers.hexlify(ethers.randomBytes(32));
+  await setJson(SOCIAL_LINK_STREAM_ID, challengeKey(challenge.walletAddress, platform), {
+    ...challenge,
+    signature,
+    stateHash: ethers.id(stateSecret),
+  });
+  return {
+    authorizeUrl: provider.getAuthorizeUrl(`${challenge.walletAddress}:${challenge.nonce}`),
+    stateSecret,
+    details: 'Challenge signed',
+  };
+}
+
+/**
+ * Complete OAuth linking from the OAuth2 callback and store the binding in 0G KV.
+ * `stateSecret` is the value of the OAuth state cookie sent with the callback.
+ */
+export async function completeOAuthLink(
+  provider: OAuthLinkProvider,
+  platform: SocialPlatform,
+  code: string,
+  state: string,
+  stateSecret: string | undefined
+): Promise<LinkVerificationResult> {
+  const [walletAddress, nonce] = state.split(':');
+  if (!walletAddress || !nonce || !ethers.isAddress(walletAddress)) {
+    return { linked: false, details: 'Invalid OAuth2 state' };
+  }
+
+  const { challenge, details } = await getLinkChallenge(walletAddress, platform);
+  if (!challenge) {
+    return { linked: false, details };
+  }
+  // The state is client-controlled; only a challenge the wallet actually signed is accepted
+  if (challenge.nonce !== nonce || !challenge.signature || !isChallengeSignedByWallet(challenge, challenge.signature)) {
+    return { linked: false, details: 'Link challenge not signed by wallet' };
+  }
+  // Otherwise anyone could sign their own challenge and send the authorize URL to a victim,
+  // linking the victim's account to their wallet
+  if (!stateSecret || !challenge.stateHash || ethers.id(stateSecret) !== challenge.stateHash) {
+    return { linked: false, details: 'Link was not started in this browser' };
+  }
+
+  const { accountId, handle } = await provider.getAccountFromCode(code);
+  const result = await saveSocialLink({
+    walletAddress: challenge.walletAddress,
+    platform,
+    handle: handle.toLowerCase(),
+    accountId,
+    signature: challenge.signature,
+    linkedAt: Date.now(),
+  });
+  if (result.linked) {
+    await consumeLinkChallenge(challenge);
+  }
+  return result;
+}
+
+/**
+ * Get the social account linked to a wallet, if any
+ */
+export async function getSocialLink(walletAddress: string, platform: SocialPlatform): Promise<SocialLink | undefined> {
+  return findLinkRecord<SocialLink>(linkKey(walletAddress, platform));
+}
+
+/**
+ * Get every social account linked to a wallet
+ */
+export async function getSocialLinks(walletAddress: string): Promise<SocialLink[]> {
+  const links = await Promise.all(SOCIAL_PLATFORMS.map(platform => getSocialLink(walletAddress, platform)));
+  return links.filter((link): link is SocialLink => link !== undefined);
+}
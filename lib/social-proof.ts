@@ -0,0 +1,29 @@
+import { z } from 'zod';
+
+/**
+ * Social proofs name the platform and the action performed, which must be the task's action.
+ * What the action targets comes from the task's verification criteria and the acting account
+ * from the wallet's linked account, so a client can't point a task at some other action it performed.
+ */
+export const twitterProofSchema = z.discriminatedUnion('action', [
+  z.object({ platform: z.literal('twitter'), action: z.literal('follow') }),
+  z.object({ platform: z.literal('twitter'), action: z.enum(['like', 'retweet', 'reply', 'quote']) }),
+]);
+
+// Discord and GitHub have their own verification types, where the platform can be left out
+export const discordProofSchema = z.discriminatedUnion('action', [
+  z.object({ platform: z.literal('discord').default('discord'), action: z.literal('join') }),
+  z.object({ platform: z.literal('discord').default('discord'), action: z.literal('role') }),
+]);
+
+export const githubProofSchema = z.discriminatedUnion('action', [
+  z.object({ platform: z.literal('github').default('github'), action: z.enum(['star', 'merged_pr', 'fork_commit']) }),
+  z.object({ platform: z.literal('github').default('github'), action: z.literal('account') }),
+]);
+
+export const socialProofSchema = z.union([twitterProofSchema, discordProofSchema, githubProofSchema]);
+
+export type TwitterProof = z.infer<typeof twitterProofSchema>;
+export type DiscordProof = z.infer<typeof discordProofSchema>;
+export type GitHubProof = z.infer<typeof githubProofSchema>;
+export type SocialProof = z.infer<typeof socialProofSchema>;
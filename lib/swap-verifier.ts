@@ -0,0 +1,275 @@
+import { ethers } from 'ethers';
+import { getBlockNumberAtTimestamp } from './chains';
+import { ERC20_ABI, isNativeToken } from './transaction-verification';
+import { getTokenUsdValue } from './token-pricing';
+
+// Uniswap V2 pair and V3 pool events (forks such as Sushi and Pancake share them)
+export const SWAP_EVENTS_ABI = [
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+];
+
+const POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+];
+
+// Uniswap V2 and V3 factories; forks keep the same lookups
+const FACTORY_ABI = [
+  'function getPair(address tokenA, address tokenB) view returns (address)',
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+];
+
+const swapInterface = new ethers.Interface(SWAP_EVENTS_ABI);
+export const V2_SWAP_TOPIC = ethers.id('Swap(address,uint256,uint256,uint256,uint256,address)');
+export const V3_SWAP_TOPIC = ethers.id('Swap(address,address,int256,int256,uint160,uint128,int24)');
+
+// Keep eth_getLogs ranges within common RPC provider limits
+const MAX_LOG_BLOCK_RANGE = 5000;
+
+export interface SwapVerificationOptions {
+  walletAddress: string;
+  chainId: number;
+  // Task window, in unix seconds
+  startTime: number;
+  endTime: number;
+  // Pools to scan; swaps through other pools are ignored when set
+  pools?: string[];
+  // Factories whose pools count when `pools` is unset. Pools are looked up in the factory,
+  // since any contract can emit a Swap log and report whatever token0/token1 it likes.
+  factories?: string[];
+  // Router the swap transaction must be sent to
+  router?: string;
+  tokenIn?: string;
+  tokenOut?: string;
+  minAmountUsd?: number;
+  // Transactions submitted as proof, checked in addition to the log scan
+  transactionHashes?: string[];
+}
+
+export interface SwapLeg {
+  pool: string;
+  version: 'v2' | 'v3';
+  logIndex: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+}
+
+export interface MatchedSwap {
+  transactionHash: string;
+  blockNumber: number;
+  legs: SwapLeg[];
+  valueUsd?: number;
+}
+
+export interface RejectedSwap {
+  transactionHash: string;
+  reason: string;
+}
+
+export interface SwapVerificationResult {
+  matched: MatchedSwap[];
+  rejected: RejectedSwap[];
+}
+
+type PoolTokens = [string, string];
+
+/**
+ * Decode a V2 or V3 Swap log into a directional leg, given the pool's token pair
+ */
+export function decodeSwapLeg(log: ethers.Log, [token0, token1]: PoolTokens): SwapLeg | undefined {
+  const parsed = swapInterface.parseLog(log);
+  if (!parsed) return undefined;
+
+  const base = { pool: log.address.toLowerCase(), logIndex: log.index };
+
+  if (log.topics[0] === V2_SWAP_TOPIC) {
+    const { amount0In, amount1In, amount0Out, amount1Out } = parsed.args;
+    const zeroForOne = amount0In > BigInt(0);
+    return {
+      ...base,
+      version: 'v2',
+      tokenIn: zeroForOne ? token0 : token1,
+      tokenOut: zeroForOne ? token1 : token0,
+      amountIn: zeroForOne ? amount0In : amount1In,
+      amountOut: zeroForOne ? amount1Out : amount0Out,
+    };
+  }
+
+  // V3 amounts are pool deltas: positive is paid in, negative is paid out
+  const amount0: bigint = parsed.args.amount0;
+  const amount1: bigint = parsed.args.amount1;
+  const zeroForOne = amount0 > BigInt(0);
+  return {
+    ...base,
+    version: 'v3',
+    tokenIn: zeroForOne ? token0 : token1,
+    tokenOut: zeroForOne ? token1 : token0,
+    amountIn: zeroForOne ? amount0 : amount1,
+    amountOut: zeroForOne ? -amount1 : -amount0,
+  };
+}
+
+function isSwapLog(log: ethers.Log) {
+  return log.topics[0] === V2_SWAP_TOPIC || log.topics[0] === V3_SWAP_TOPIC;
+}
+
+// A pool lookup reverted, or returned nothing decodable (no such function on the contract)
+function isNotAPoolError(error: unknown) {
+  return ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'BAD_DATA');
+}
+
+/**
+ * Find swaps by `walletAddress` within the task window, and split them into those
+ * that satisfy the options and those that don't (with the reason).
+ *
+ * Candidates come from Swap logs whose recipient is the wallet in the configured pools,
+ * plus any transactions submitted as proof (e.g. swaps that unwrap to native ETH).
+ * Only legs through `pools`, or through pools deployed by `factories`, count.
+ */
+export async function verifySwaps(
+  provider: ethers.Provider,
+  options: SwapVerificationOptions
+): Promise<SwapVerificationResult> {
+  const wallet = options.walletAddress.toLowerCase();
+  const pools = options.pools?.map(pool => pool.toLowerCase());
+  const factories = (options.factories ?? []).map(factory => new ethers.Contract(factory, FACTORY_ABI, provider));
+  const candidateTxs = new Set((options.transactionHashes ?? []).map(hash => hash.toLowerCase()));
+
+  if (pools?.length) {
+    const fromBlock = await getBlockNumberAtTimestamp(provider, options.startTime);
+    const toBlock = Math.min(
+      (await getBlockNumberAtTimestamp(provider, options.endTime + 1)) - 1,
+      await provider.getBlockNumber()
+    );
+
+    for (let start = fromBlock; start <= toBlock; start += MAX_LOG_BLOCK_RANGE) {
+      const logs = await provider.getLogs({
+        address: pools,
+        topics: [[V2_SWAP_TOPIC, V3_SWAP_TOPIC], null, ethers.zeroPadValue(wallet, 32)],
+        fromBlock: start,
+        toBlock: Math.min(start + MAX_LOG_BLOCK_RANGE - 1, toBlock),
+      });
+      logs.forEach(log => candidateTxs.add(log.transactionHash.toLowerCase()));
+    }
+  }
+
+  // Whether a factory deployed `pool` for the pair (and, for V3, fee tier) it reports
+  const isFactoryPool = async (pool: string, version: SwapLeg['version'], [token0, token1]: PoolTokens) => {
+    const fee = version === 'v3' ? await new ethers.Contract(pool, POOL_ABI, provider).fee() : undefined;
+    for (const factory of factories) {
+      const deployed: string =
+        version === 'v3' ? await factory.getPool(token0, token1, fee) : await factory.getPair(token0, token1);
+      if (deployed.toLowerCase() === pool) return true;
+    }
+    return false;
+  };
+
+  // Token pairs of trusted pools; undefined for pools that are neither configured nor factory-deployed
+  const poolTokens = new Map<string, PoolTokens | undefined>();
+  const getPoolTokens = async (pool: string, version: SwapLeg['version']): Promise<PoolTokens | undefined> => {
+    if (!poolTokens.has(pool)) {
+      let tokens: PoolTokens | undefined;
+      if (!pools || pools.includes(pool)) {
+        const contract = new ethers.Contract(pool, POOL_ABI, provider);
+        try {
+          const [token0, token1] = await Promise.all([contract.token0(), contract.token1()]);
+          tokens = [token0.toLowerCase(), token1.toLowerCase()];
+          if (!pools && !(await isFactoryPool(pool, version, tokens))) {
+            tokens = undefined;
+          }
+        } catch (error) {
+          // Any contract can emit a Swap topic; one without the pool interface is not a pool.
+          // Other failures (RPC errors) propagate so the verification is retried.
+          if (!isNotAPoolError(error)) throw error;
+          tokens = undefined;
+        }
+      }
+      poolTokens.set(pool, tokens);
+    }
+    return poolTokens.get(pool);
+  };
+
+  const result: SwapVerificationResult = { matched: [], rejected: [] };
+
+  for (const transactionHash of candidateTxs) {
+    const reject = (reason: string) => result.rejected.push({ transactionHash, reason });
+
+    const receipt = await provider.getTransactionReceipt(transactionHash);
+    if (!receipt || receipt.status !== 1) {
+      reject('Transaction not found or reverted');
+      continue;
+    }
+    if (receipt.from.toLowerCase() !== wallet) {
+      reject('Transaction not sent by wallet');
+      continue;
+    }
+    if (options.router && receipt.to?.toLowerCase() !== options.router.toLowerCase()) {
+      reject('Transaction not sent to router');
+      continue;
+    }
+
+    const block = await provider.getBlock(receipt.blockNumber);
+    if (!block || block.timestamp < options.startTime || block.timestamp > options.endTime) {
+      reject('Transaction outside task window');
+      continue;
+    }
+
+    const legs: SwapLeg[] = [];
+    for (const log of receipt.logs) {
+      if (!isSwapLog(log)) continue;
+      const version = log.topics[0] === V2_SWAP_TOPIC ? 'v2' : 'v3';
+      const tokens = await getPoolTokens(log.address.toLowerCase(), version);
+      const leg = tokens && decodeSwapLeg(log, tokens);
+      if (leg) legs.push(leg);
+    }
+    if (legs.length === 0) {
+      reject('No swap through a configured pool');
+      continue;
+    }
+
+    // Multi-hop swaps: the first leg pays in, the last leg pays out
+    const entryLeg = options.tokenIn
+      ? legs.find(leg => leg.tokenIn === options.tokenIn!.toLowerCase())
+      : legs[0];
+    if (!entryLeg) {
+      reject('Swap does not sell tokenIn');
+      continue;
+    }
+    if (options.tokenOut && !legs.some(leg => leg.tokenOut === options.tokenOut!.toLowerCase())) {
+      reject('Swap does not buy tokenOut');
+      continue;
+    }
+
+    let valueUsd: number | undefined;
+    if (options.minAmountUsd !== undefined) {
+      const decimals = isNativeToken(entryLeg.tokenIn)
+        ? 18
+        : Number(await new ethers.Contract(entryLeg.tokenIn, ERC20_ABI, provider).decimals());
+      valueUsd = await getTokenUsdValue(
+        provider,
+        options.chainId,
+        entryLeg.tokenIn,
+        entryLeg.amountIn,
+        decimals,
+        receipt.blockNumber
+      );
+      if (valueUsd === undefined) {
+        reject('Unable to price tokenIn');
+        continue;
+      }
+      if (valueUsd < options.minAmountUsd) {
+        reject(`Swap value $${valueUsd.toFixed(2)} below minimum $${options.minAmountUsd}`);
+        continue;
+      }
+    }
+
+    result.matched.push({ transactionHash, blockNumber: receipt.blockNumber, legs, valueUsd });
+  }
+
+  result.matched.sort((a, b) => a.blockNumber - b.blockNumber);
+  return result;
+}
@@ -1,179 +1,125 @@
-import CryptoJS from 'crypto-js';
-import { uploadToKV, downloadFromKV, setJson, getJson } from './zg-storage';
+import { setJson, findJson } from './kv-store';
 import { ethers } from 'ethers';
 import { createZGComputeNetworkBroker, ServiceStructOutput } from '@0glabs/0g-serving-broker';
-
-export interface DeviceFingerprint {
-  userAgent: string;
-  screenResolution: string;
-  timezone: string;
-  language: string;
-  platform: string;
-  cookieEnabled: boolean;
-  doNotTrack: string;
-  hardwareConcurrency: number;
-  maxTouchPoints: number;
-  colorDepth: number;
-  pixelRatio: number;
-}
+import { DeviceFingerprint, generateUserID } from './device-fingerprint';
+import type { WalletActivity } from './transaction-history';
+import { findFundingClusters } from './funding-clusters';
+import { analyzeTimingPatterns } from './timing-analysis';
+import {
+  findNearDuplicates,
+  FingerprintRecord,
+  FingerprintSimilarityOptions,
+  getLshBuckets,
+  NearDuplicate,
+} from './fingerprint-similarity';
+import {
+  applySybilRules,
+  DEFAULT_SYBIL_RULES,
+  getRiskLevel,
+  isFingerprintRule,
+  RiskLevel,
+  SybilFacts,
+  SybilRuleSet,
+} from './sybil-rules';
+
+export type { DeviceFingerprint } from './device-fingerprint';
+export { generateDeviceFingerprint, generateUserID } from './device-fingerprint';
 
 export interface SybilDetectionResult {
   score: number;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  riskLevel: RiskLevel;
   factors: string[];
   recommendations: string[];
+  // Funding cluster the wallet was matched to, for auditing
+  clusterId?: string;
+  // Other wallets in the campaign scored from a near-identical device
+  nearDuplicates?: NearDuplicate[];
 }
 
 /**
- * Generate device fingerprint for sybil detection
+ * Calculate sybil resistance score based on device fingerprint, using the fingerprint-only rules of `ruleSet`
  */
-export function generateDeviceFingerprint(): DeviceFingerprint {
-  if (typeof window === 'undefined') {
-    // Server-side rendering fallback
-    return {
-      userAgent: '',
-      screenResolution: '',
-      timezone: '',
-      language: '',
-      platform: '',
-      cookieEnabled: false,
-      doNotTrack: '',
-      hardwareConcurrency: 0,
-      maxTouchPoints: 0,
-      colorDepth: 0,
-      pixelRatio: 0,
-    };
-  }
+export function calculateSybilScore(
+  fingerprint: DeviceFingerprint,
+  ruleSet: SybilRuleSet = DEFAULT_SYBIL_RULES
+): SybilDetectionResult {
+  const applied = applySybilRules(ruleSet.rules.filter(isFingerprintRule), { fingerprint }, ruleSet.baseScore);
+
+  // Ensure score is within bounds
+  const score = Math.max(0, Math.min(100, applied.score));
 
   return {
-    userAgent: navigator.userAgent,
-    screenResolution: `${screen.width}x${screen.height}`,
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    language: navigator.language,
-    platform: navigator.platform,
-    cookieEnabled: navigator.cookieEnabled,
-    doNotTrack: navigator.doNotTrack || '',
-    hardwareConcurrency: navigator.hardwareConcurrency || 0,
-    maxTouchPoints: navigator.maxTouchPoints || 0,
-    colorDepth: screen.colorDepth,
-    pixelRatio: window.devicePixelRatio,
+    score,
+    riskLevel: getRiskLevel(score, ruleSet.tiers),
+    factors: applied.factors,
+    recommendations: applied.recommendations,
   };
 }
 
 /**
- * Calculate sybil resistance score based on device fingerprint
+ * Score a participant's facts: fingerprint rules first (clamped, as `calculateSybilScore`),
+ * then the wallet, funding and timing rules
  */
-export function calculateSybilScore(fingerprint: DeviceFingerprint): SybilDetectionResult {
-  let score = 100;
-  const factors: string[] = [];
-  const recommendations: string[] = [];
-
-  // Check for common sybil indicators
-  if (fingerprint.userAgent.includes('HeadlessChrome') || fingerprint.userAgent.includes('PhantomJS')) {
-    score -= 30;
-    factors.push('Automated browser detected');
-    recommendations.push('Use a standard browser');
-  }
-
-  if (fingerprint.screenResolution === '1920x1080' && fingerprint.timezone === 'UTC') {
-    score -= 15;
-    factors.push('Common bot configuration detected');
-  }
-
-  if (fingerprint.hardwareConcurrency < 2) {
-    score -= 10;
-    factors.push('Low hardware concurrency');
-  }
-
-  if (fingerprint.maxTouchPoints === 0 && fingerprint.platform.includes('Mobile')) {
-    score -= 20;
-    factors.push('Mobile device without touch support');
-  }
-
-  if (!fingerprint.cookieEnabled) {
-    score -= 15;
-    factors.push('Cookies disabled');
-    recommendations.push('Enable cookies for better verification');
-  }
-
-  if (fingerprint.doNotTrack === '1') {
-    score -= 5;
-    factors.push('Do Not Track enabled');
-  }
-
-  // Check for unique characteristics that indicate real user
-  if (fingerprint.language !== 'en-US' && fingerprint.language !== 'en') {
-    score += 5;
-    factors.push('Non-English language preference');
-  }
-
-  if (fingerprint.timezone !== 'UTC' && fingerprint.timezone !== 'America/New_York') {
-    score += 5;
-    factors.push('Non-standard timezone');
-  }
-
-  // Ensure score is within bounds
-  score = Math.max(0, Math.min(100, score));
-
-  let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-  if (score >= 80) {
-    riskLevel = 'LOW';
-  } else if (score >= 60) {
-    riskLevel = 'MEDIUM';
-  } else {
-    riskLevel = 'HIGH';
-  }
+export function evaluateSybilFacts(facts: SybilFacts, ruleSet: SybilRuleSet = DEFAULT_SYBIL_RULES): SybilDetectionResult {
+  const baseResult = calculateSybilScore(facts.fingerprint, ruleSet);
+  const applied = applySybilRules(
+    ruleSet.rules.filter(rule => !isFingerprintRule(rule)),
+    facts,
+    baseResult.score
+  );
+  const score = Math.max(0, Math.min(100, applied.score));
 
   return {
     score,
-    riskLevel,
-    factors,
-    recommendations,
+    riskLevel: getRiskLevel(score, ruleSet.tiers),
+    factors: Array.from(new Set([...baseResult.factors, ...applied.factors])),
+    recommendations: Array.from(new Set([...baseResult.recommendations, ...applied.recommendations])),
   };
 }
 
 /**
- * Generate unique user ID based on device fingerprint
- */
-export function generateUserID(fingerprint: DeviceFingerprint): string {
-  const fingerprintString = JSON.stringify(fingerprint);
-  return CryptoJS.SHA256(fingerprintString).toString();
-}
-
-/**
- * Check for duplicate device fingerprints (potential sybil attack)
+ * Find wallets whose device fingerprints are near-duplicates of `currentFingerprint`
+ * (potential sybil attack), with how similar each one is
  */
 export function checkForDuplicateFingerprints(
   currentFingerprint: DeviceFingerprint,
-  existingFingerprints: DeviceFingerprint[]
-): boolean {
-  const currentID = generateUserID(currentFingerprint);
-  
-  return existingFingerprints.some(fp => {
-    const existingID = generateUserID(fp);
-    return currentID === existingID;
-  });
+  existingFingerprints: FingerprintRecord[],
+  options: FingerprintSimilarityOptions = {}
+): NearDuplicate[] {
+  return findNearDuplicates(currentFingerprint, existingFingerprints, options);
 }
 
 // zg-storage による JSON 保存／取得のラッパー
-async function getWalletFingerprints(streamId: string): Promise<Array<{ wallet: string; fingerprint: string }>> {
-  return await getJson<Array<{ wallet: string; fingerprint: string }>>(streamId, 'walletFingerprints').catch(() => []);
-}
-
-async function setWalletFingerprints(streamId: string, fingerprints: Array<{ wallet: string; fingerprint: string }>) {
-  return setJson(streamId, 'walletFingerprints', fingerprints);
+// Wallet fingerprint records are stored under each of their LSH buckets, so scoring a wallet
+// reads and rewrites only the buckets its fingerprint falls in, not every record in the campaign
+function fingerprintBucketKey(bucket: string) {
+  return `walletFingerprints:${bucket}`;
 }
 
-async function getAccountCreationTime(streamId: string): Promise<string | undefined> {
-  return getJson<string>(streamId, 'accountCreationTime').catch(() => undefined);
+async function getWalletFingerprintBuckets(
+  streamId: string,
+  buckets: string[]
+): Promise<Map<string, FingerprintRecord[]>> {
+  const records = await Promise.all(
+    buckets.map(async bucket => (await findJson<FingerprintRecord[]>(streamId, fingerprintBucketKey(bucket))) ?? [])
+  );
+  return new Map(buckets.map((bucket, i) => [bucket, records[i]]));
 }
 
-async function setAccountCreationTime(streamId: string, time: string) {
-  return setJson(streamId, 'accountCreationTime', time);
+async function addWalletFingerprint(
+  streamId: string,
+  record: FingerprintRecord & { buckets: string[] },
+  stored: Map<string, FingerprintRecord[]>
+) {
+  await Promise.all(
+    record.buckets.map(bucket =>
+      setJson(streamId, fingerprintBucketKey(bucket), [...(stored.get(bucket) ?? []), record])
+    )
+  );
 }
 
 async function getDeviceFingerprints(streamId: string): Promise<string[]> {
-  return getJson<string[]>(streamId, 'deviceFingerprints').catch(() => []);
+  return (await findJson<string[]>(streamId, 'deviceFingerprints')) ?? [];
 }
 
 async function setDeviceFingerprints(streamId: string, fingerprints: string[]) {
@@ -181,84 +127,102 @@ async function setDeviceFingerprints(streamId: string, fingerprints: string[]) {
 }
 
 /**
- * Advanced sybil detection using multiple factors
+ * Facts a campaign participant was last scored on, kept so rule changes can be replayed
+ */
+export interface ScoredParticipant {
+  wallet: string;
+  facts: SybilFacts;
+  score: number;
+  scoredAt: number;
+}
+
+export async function getScoredParticipants(streamId: string): Promise<ScoredParticipant[]> {
+  return (await findJson<ScoredParticipant[]>(streamId, 'scoredParticipants')) ?? [];
+}
+
+async function setScoredParticipants(streamId: string, participants: ScoredParticipant[]) {
+  return setJson(streamId, 'scoredParticipants', participants);
+}
+
+/**
+ * Advanced sybil detection using multiple factors, scored with the campaign's rules
  */
 export async function advancedSybilDetection(
   fingerprint: DeviceFingerprint,
   walletAddress: string,
-  transactionHistory: any[],
+  activity: WalletActivity,
   socialConnections: any[],
-  streamId: string
+  streamId: string,
+  completionTime?: number,
+  ruleSet: SybilRuleSet = DEFAULT_SYBIL_RULES
 ): Promise<SybilDetectionResult> {
-  const baseResult = calculateSybilScore(fingerprint);
-  let score = baseResult.score;
-  const factors = [...baseResult.factors];
-  const recommendations = [...baseResult.recommendations];
-
-  // Transaction history check
-  if (transactionHistory.length < 5) {
-    score -= 10;
-    factors.push('Limited transaction history');
-    recommendations.push('Complete more transactions to build reputation');
-  }
+  const wallet = walletAddress.toLowerCase();
 
-  // Multiple wallets from same device
-  const walletFingerprints = await getWalletFingerprints(streamId);
-  if (walletFingerprints.length > 3) {
-    score -= 20;
-    factors.push('Multiple wallets from same device');
-    recommendations.push('Use different devices for multiple wallets');
-  }
-
-  // Social connections check
-  if (socialConnections.length === 0) {
-    score -= 5;
-    factors.push('No social connections');
-    recommendations.push('Connect social accounts for better verification');
-  }
-
-  // Recently created account check
-  const accountCreationTime = await getAccountCreationTime(streamId);
-  if (accountCreationTime) {
-    const timeSinceCreation = Date.now() - parseInt(accountCreationTime, 10);
-    if (timeSinceCreation < 24 * 60 * 60 * 1000) {
-      score -= 15;
-      factors.push('Recently created account');
-    }
-  }
+  // Multiple wallets from same (or nearly the same) device
+  const fingerprintID = generateUserID(fingerprint);
+  const buckets = getLshBuckets(fingerprint);
+  const bucketed = await getWalletFingerprintBuckets(streamId, buckets);
+  // A record shows up once per bucket it shares with this fingerprint
+  const candidates = Array.from(
+    new Map(
+      Array.from(bucketed.values())
+        .flat()
+        .map(record => [`${record.wallet.toLowerCase()}:${generateUserID(record.fingerprint)}`, record])
+    ).values()
+  );
+  const nearDuplicates = checkForDuplicateFingerprints(
+    fingerprint,
+    candidates.filter(record => record.wallet.toLowerCase() !== wallet),
+    { threshold: ruleSet.deviceSimilarityThreshold }
+  );
+
+  // Shared funding source
+  const clusters = await findFundingClusters(walletAddress, activity, streamId);
+  const cluster = clusters[0];
+
+  // Action cadence and gas price choices matching other participants, and transactions sent in lockstep with them
+  const timing = await analyzeTimingPatterns(walletAddress, activity, completionTime, streamId);
+
+  const facts: SybilFacts = {
+    fingerprint,
+    wallet: {
+      transactionCount: activity.transactionCount,
+      // A wallet never seen on-chain is as new as it gets
+      ageMs: activity.firstSeenAt === undefined ? 0 : Date.now() - activity.firstSeenAt,
+      socialConnections: socialConnections.length,
+      otherWalletsOnDevice: nearDuplicates.length,
+      deviceSimilarity: nearDuplicates[0]?.similarity ?? 0,
+    },
+    funding: { pattern: cluster?.pattern, clusterSize: cluster?.wallets.length ?? 0 },
+    timing: {
+      cadence: timing.weights.cadence !== undefined,
+      gas: timing.weights.gas !== undefined,
+      interleaving: timing.weights.interleaving !== undefined,
+      lookalikes: timing.lookalikes.length,
+    },
+  };
+  const result = evaluateSybilFacts(facts, ruleSet);
 
   // Store device fingerprint record
-  const fingerprintID = generateUserID(fingerprint);
   const existingFingerprints = await getDeviceFingerprints(streamId);
   if (!existingFingerprints.includes(fingerprintID)) {
     const updated = [...existingFingerprints, fingerprintID];
     await setDeviceFingerprints(streamId, updated);
   }
 
-  // Store wallet → fingerprint mapping
-  const walletMap = await getWalletFingerprints(streamId);
-  if (!walletMap.some(wf => wf.wallet === walletAddress && wf.fingerprint === fingerprintID)) {
-    const updatedMap = [...walletMap, { wallet: walletAddress, fingerprint: fingerprintID }];
-    await setWalletFingerprints(streamId, updatedMap);
+  // Store wallet → fingerprint mapping. An identical record shares every bucket, so it would be a candidate
+  if (!candidates.some(wf => wf.wallet === walletAddress && generateUserID(wf.fingerprint) === fingerprintID)) {
+    await addWalletFingerprint(streamId, { wallet: walletAddress, fingerprint, buckets }, bucketed);
   }
 
-  score = Math.max(0, Math.min(100, score));
-
-  let riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-  if (score >= 80) {
-    riskLevel = 'LOW';
-  } else if (score >= 60) {
-    riskLevel = 'MEDIUM';
-  } else {
-    riskLevel = 'HIGH';
-  }
+  // Store the facts for dry runs of rule changes
+  const scored = await getScoredParticipants(streamId);
+  await setScoredParticipants(streamId, [
+    ...scored.filter(participant => participant.wallet !== wallet),
+    { wallet, facts, score: result.score, scoredAt: Date.now() },
+  ]);
 
-  return {
-    score,
-    riskLevel,
-    factors,
-    recommendations,
-  };
+  return { ...result, clusterId: cluster?.id, nearDuplicates };
 }
 
 /**
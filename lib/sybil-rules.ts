@@ -0,0 +1,436 @@
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import { findJson, setJson } from './kv-store';
+import { SYBIL_STREAM_ID } from './fingerprint-store';
+import type { DeviceFingerprint } from './device-fingerprint';
+import type { FundingPattern } from './funding-clusters';
+import { DEFAULT_SIMILARITY_THRESHOLD } from './fingerprint-similarity';
+
+// Version of the rule format; bump when the schema changes incompatibly
+export const SYBIL_RULES_VERSION = 1;
+
+// Signed rules requests must be submitted shortly after they are signed
+const MAX_REQUEST_AGE_MS = 10 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 60 * 1000;
+
+/**
+ * Everything a rule can look at for one participant. Snapshotted at scoring time so rule
+ * changes can be replayed against past participants.
+ */
+export interface SybilFacts {
+  fingerprint: DeviceFingerprint;
+  wallet: {
+    transactionCount: number;
+    // 0 for a wallet never seen on-chain
+    ageMs: number;
+    socialConnections: number;
+    // Other wallets in the campaign scored from a near-identical device
+    otherWalletsOnDevice: number;
+    // Highest fingerprint similarity (0-1) to another wallet in the campaign
+    deviceSimilarity: number;
+  };
+  funding: {
+    pattern?: FundingPattern;
+    clusterSize: number;
+  };
+  timing: {
+    cadence: boolean;
+    gas: boolean;
+    interleaving: boolean;
+    lookalikes: number;
+  };
+}
+
+export const SYBIL_FACT_FIELDS = [
+  'fingerprint.userAgent',
+  'fingerprint.screenResolution',
+  'fingerprint.timezone',
+  'fingerprint.language',
+  'fingerprint.platform',
+  'fingerprint.cookieEnabled',
+  'fingerprint.doNotTrack',
+  'fingerprint.hardwareConcurrency',
+  'fingerprint.maxTouchPoints',
+  'fingerprint.colorDepth',
+  'fingerprint.pixelRatio',
+  'fingerprint.version',
+  'fingerprint.webglRenderer',
+  'wallet.transactionCount',
+  'wallet.ageMs',
+  'wallet.socialConnections',
+  'wallet.otherWalletsOnDevice',
+  'wallet.deviceSimilarity',
+  'funding.pattern',
+  'funding.clusterSize',
+  'timing.cadence',
+  'timing.gas',
+  'timing.interleaving',
+  'timing.lookalikes',
+] as const;
+
+export type SybilFactField = (typeof SYBIL_FACT_FIELDS)[number];
+
+const scalar = z.union([z.string().max(256), z.number(), z.boolean()]);
+
+const comparisonSchema = z.discriminatedUnion('op', [
+  z.object({ field: z.enum(SYBIL_FACT_FIELDS), op: z.enum(['eq', 'neq']), value: scalar }),
+  z.object({ field: z.enum(SYBIL_FACT_FIELDS), op: z.enum(['lt', 'lte', 'gt', 'gte']), value: z.number() }),
+  z.object({ field: z.enum(SYBIL_FACT_FIELDS), op: z.literal('in'), value: z.array(scalar).max(100) }),
+  z.object({ field: z.enum(SYBIL_FACT_FIELDS), op: z.literal('contains'), value: z.string().min(1).max(256) }),
+]);
+
+export type SybilComparison = z.infer<typeof comparisonSchema>;
+
+export type SybilCondition =
+  | SybilComparison
+  | { all: SybilCondition[] }
+  | { any: SybilCondition[] }
+  | { not: SybilCondition };
+
+export const sybilConditionSchema: z.ZodType<SybilCondition> = z.lazy(() =>
+  z.union([
+    comparisonSchema,
+    z.object({ all: z.array(sybilConditionSchema).min(1).max(20) }),
+    z.object({ any: z.array(sybilConditionSchema).min(1).max(20) }),
+    z.object({ not: sybilConditionSchema }),
+  ])
+);
+
+/**
+ * Add `weight` to the score (negative for a penalty) and report `factor` when `when` holds
+ */
+export const sybilRuleSchema = z.object({
+  id: z.string().regex(/^[\w-]{1,64}$/, 'Invalid rule ID'),
+  when: sybilConditionSchema,
+  weight: z.number().min(-100).max(100),
+  factor: z.string().min(1).max(200),
+  recommendation: z.string().max(200).optional(),
+});
+
+export const sybilRuleSetSchema = z
+  .object({
+    version: z.literal(SYBIL_RULES_VERSION).default(SYBIL_RULES_VERSION),
+    baseScore: z.number().min(0).max(100).default(100),
+    // Minimum scores for LOW and MEDIUM risk; anything below `medium` is HIGH
+    tiers: z
+      .object({ low: z.number().min(0).max(100), medium: z.number().min(0).max(100) })
+      .refine(tiers => tiers.low >= tiers.medium, 'tiers.low must be at least tiers.medium')
+      .default({ low: 80, medium: 60 }),
+    // Fingerprint similarity (0-1) at which two wallets count as sharing a device
+    deviceSimilarityThreshold: z.number().min(0).max(1).default(DEFAULT_SIMILARITY_THRESHOLD),
+    rules: z.array(sybilRuleSchema).max(100),
+  })
+  .refine(ruleSet => new Set(ruleSet.rules.map(rule => rule.id)).size === ruleSet.rules.length, {
+    message: 'Rule IDs must be unique',
+    path: ['rules'],
+  });
+
+export type SybilRule = z.infer<typeof sybilRuleSchema>;
+export type SybilRuleSet = z.infer<typeof sybilRuleSetSchema>;
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/**
+ * The scoring every campaign gets unless its advertiser uploads rules of their own
+ */
+export const DEFAULT_SYBIL_RULES: SybilRuleSet = {
+  version: SYBIL_RULES_VERSION,
+  baseScore: 100,
+  tiers: { low: 80, medium: 60 },
+  deviceSimilarityThreshold: DEFAULT_SIMILARITY_THRESHOLD,
+  rules: [
+    {
+      id: 'automated-browser',
+      when: {
+        any: [
+          { field: 'fingerprint.userAgent', op: 'contains', value: 'HeadlessChrome' },
+          { field: 'fingerprint.userAgent', op: 'contains', value: 'PhantomJS' },
+        ],
+      },
+      weight: -30,
+      factor: 'Automated browser detected',
+      recommendation: 'Use a standard browser',
+    },
+    {
+      // Headless browsers fall back to software WebGL renderers
+      id: 'software-renderer',
+      when: {
+        any: [
+          { field: 'fingerprint.webglRenderer', op: 'contains', value: 'SwiftShader' },
+          { field: 'fingerprint.webglRenderer', op: 'contains', value: 'llvmpipe' },
+        ],
+      },
+      weight: -20,
+      factor: 'Software graphics renderer detected',
+      recommendation: 'Use a standard browser',
+    },
+    {
+      id: 'common-bot-configuration',
+      when: {
+        all: [
+          { field: 'fingerprint.screenResolution', op: 'eq', value: '1920x1080' },
+          { field: 'fingerprint.timezone', op: 'eq', value: 'UTC' },
+        ],
+      },
+      weight: -15,
+      factor: 'Common bot configuration detected',
+    },
+    {
+      id: 'low-hardware-concurrency',
+      when: { field: 'fingerprint.hardwareConcurrency', op: 'lt', value: 2 },
+      weight: -10,
+      factor: 'Low hardware concurrency',
+    },
+    {
+      id: 'mobile-without-touch',
+      when: {
+        all: [
+          { field: 'fingerprint.maxTouchPoints', op: 'eq', value: 0 },
+          { field: 'fingerprint.platform', op: 'contains', value: 'Mobile' },
+        ],
+      },
+      weight: -20,
+      factor: 'Mobile device without touch support',
+    },
+    {
+      id: 'cookies-disabled',
+      when: { field: 'fingerprint.cookieEnabled', op: 'eq', value: false },
+      weight: -15,
+      factor: 'Cookies disabled',
+      recommendation: 'Enable cookies for better verification',
+    },
+    {
+      id: 'do-not-track',
+      when: { field: 'fingerprint.doNotTrack', op: 'eq', value: '1' },
+      weight: -5,
+      factor: 'Do Not Track enabled',
+    },
+    {
+      id: 'non-english-language',
+      when: { not: { field: 'fingerprint.language', op: 'in', value: ['en-US', 'en'] } },
+      weight: 5,
+      factor: 'Non-English language preference',
+    },
+    {
+      id: 'non-standard-timezone',
+      when: { not: { field: 'fingerprint.timezone', op: 'in', value: ['UTC', 'America/New_York'] } },
+      weight: 5,
+      factor: 'Non-standard timezone',
+    },
+    {
+      id: 'limited-transaction-history',
+      when: { field: 'wallet.transactionCount', op: 'lt', value: 5 },
+      weight: -10,
+      factor: 'Limited transaction history',
+      recommendation: 'Complete more transactions to build reputation',
+    },
+    {
+      id: 'shared-device',
+      when: { field: 'wallet.otherWalletsOnDevice', op: 'gte', value: 3 },
+      weight: -20,
+      factor: 'Multiple wallets from same device',
+      recommendation: 'Use different devices for multiple wallets',
+    },
+    {
+      // Identical-amount bursts are a stronger farm signal than a shared funder alone
+      id: 'identical-funding-fan-out',
+      when: { field: 'funding.pattern', op: 'eq', value: 'identical-fan-out' },
+      weight: -30,
+      factor: 'Shared funding source',
+      recommendation: 'Fund each wallet independently',
+    },
+    {
+      id: 'star-funding',
+      when: { field: 'funding.pattern', op: 'eq', value: 'star' },
+      weight: -20,
+      factor: 'Shared funding source',
+      recommendation: 'Fund each wallet independently',
+    },
+    {
+      id: 'timing-cadence',
+      when: { field: 'timing.cadence', op: 'eq', value: true },
+      weight: -12,
+      factor: 'Indistinguishable action cadence',
+      recommendation: 'Avoid scripted or automated task completion',
+    },
+    {
+      id: 'timing-gas',
+      when: { field: 'timing.gas', op: 'eq', value: true },
+      weight: -11,
+      factor: 'Indistinguishable gas price choices',
+      recommendation: 'Avoid scripted or automated task completion',
+    },
+    {
+      id: 'timing-interleaving',
+      when: { field: 'timing.interleaving', op: 'eq', value: true },
+      weight: -8,
+      factor: 'Transactions sent in lockstep with another participant',
+      recommendation: 'Avoid scripted or automated task completion',
+    },
+    {
+      id: 'no-social-connections',
+      when: { field: 'wallet.socialConnections', op: 'eq', value: 0 },
+      weight: -5,
+      factor: 'No social connections',
+      recommendation: 'Connect social accounts for better verification',
+    },
+    {
+      id: 'recently-created-account',
+      when: { field: 'wallet.ageMs', op: 'lt', value: 24 * 60 * 60 * 1000 },
+      weight: -15,
+      factor: 'Recently created account',
+    },
+  ],
+};
+
+function readField(facts: Partial<SybilFacts>, field: SybilFactField): unknown {
+  const [group, key] = field.split('.');
+  return (facts as Record<string, Record<string, unknown> | undefined>)[group]?.[key];
+}
+
+/**
+ * Evaluate a condition; comparisons against facts that are missing never hold
+ */
+export function evaluateCondition(condition: SybilCondition, facts: Partial<SybilFacts>): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, facts));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, facts));
+  if ('not' in condition) return !evaluateCondition(condition.not, facts);
+
+  const actual = readField(facts, condition.field);
+  if (actual === undefined) return false;
+  switch (condition.op) {
+    case 'eq':
+      return actual === condition.value;
+    case 'neq':
+      return actual !== condition.value;
+    case 'lt':
+      return typeof actual === 'number' && actual < condition.value;
+    case 'lte':
+      return typeof actual === 'number' && actual <= condition.value;
+    case 'gt':
+      return typeof actual === 'number' && actual > condition.value;
+    case 'gte':
+      return typeof actual === 'number' && actual >= condition.value;
+    case 'in':
+      return condition.value.some(value => value === actual);
+    case 'contains':
+      return typeof actual === 'string' && actual.includes(condition.value);
+  }
+}
+
+function conditionFields(condition: SybilCondition): SybilFactField[] {
+  if ('all' in condition) return condition.all.flatMap(conditionFields);
+  if ('any' in condition) return condition.any.flatMap(conditionFields);
+  if ('not' in condition) return conditionFields(condition.not);
+  return [condition.field];
+}
+
+/**
+ * Rules that only look at the device fingerprint, i.e. the ones `calculateSybilScore` can evaluate
+ */
+export function isFingerprintRule(rule: SybilRule): boolean {
+  return conditionFields(rule.when).every(field => field.startsWith('fingerprint.'));
+}
+
+/**
+ * Apply matching rules to a starting score. The result is not clamped.
+ */
+export function applySybilRules(
+  rules: readonly SybilRule[],
+  facts: Partial<SybilFacts>,
+  startScore: number
+): { score: number; factors: string[]; recommendations: string[] } {
+  let score = startScore;
+  const factors: string[] = [];
+  const recommendations: string[] = [];
+  for (const rule of rules) {
+    if (!evaluateCondition(rule.when, facts)) continue;
+    score += rule.weight;
+    if (!factors.includes(rule.factor)) factors.push(rule.factor);
+    if (rule.recommendation && !recommendations.includes(rule.recommendation)) {
+      recommendations.push(rule.recommendation);
+    }
+  }
+  return { score, factors, recommendations };
+}
+
+export function getRiskLevel(score: number, tiers: SybilRuleSet['tiers']): RiskLevel {
+  if (score >= tiers.low) return 'LOW';
+  if (score >= tiers.medium) return 'MEDIUM';
+  return 'HIGH';
+}
+
+/**
+ * Parse and validate a rule set from JSON text or an already-parsed object
+ */
+export function parseSybilRules(input: unknown): SybilRuleSet {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new Error('Sybil rules are not valid JSON');
+    }
+  }
+
+  const result = sybilRuleSetSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'rules'}: ${issue.message}`);
+    throw new Error(`Invalid sybil rules: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Message the task's advertiser signs to set (or preview) a campaign's rules. `rules` is hashed
+ * as submitted, before defaults are filled in, so clients can sign exactly what they send.
+ */
+export function buildSybilRulesMessage(taskId: number, rules: unknown, issuedAt: number, dryRun: boolean): string {
+  return [
+    `${dryRun ? 'Preview' : 'Set'} Homare sybil rules for task ${taskId}`,
+    `Rules hash: ${ethers.id(JSON.stringify(rules))}`,
+    `Issued at: ${new Date(issuedAt).toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Check a rules request is fresh and signed by the task's advertiser
+ */
+export function verifySybilRulesSignature(
+  request: { taskId: number; rules: unknown; issuedAt: number; dryRun: boolean; signature: string },
+  advertiser: string,
+  now = Date.now()
+): { valid: boolean; details: string } {
+  if (request.issuedAt > now + MAX_CLOCK_SKEW_MS || now - request.issuedAt > MAX_REQUEST_AGE_MS) {
+    return { valid: false, details: 'Rules request expired' };
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(
+      buildSybilRulesMessage(request.taskId, request.rules, request.issuedAt, request.dryRun),
+      request.signature
+    );
+  } catch {
+    return { valid: false, details: 'Invalid signature' };
+  }
+  if (signer.toLowerCase() !== advertiser.toLowerCase()) {
+    return { valid: false, details: 'Rules must be signed by the task advertiser' };
+  }
+  return { valid: true, details: 'Rules request verified' };
+}
+
+function rulesKey(taskId: number) {
+  return `rules:${taskId}`;
+}
+
+/**
+ * Get the rules a task is scored with: the advertiser's, or the defaults
+ */
+export async function getTaskSybilRules(taskId: number): Promise<SybilRuleSet> {
+  const stored = await findJson<SybilRuleSet>(SYBIL_STREAM_ID, rulesKey(taskId));
+  return stored ? parseSybilRules(stored) : DEFAULT_SYBIL_RULES;
+}
+
+export async function saveTaskSybilRules(taskId: number, ruleSet: SybilRuleSet) {
+  await setJson(SYBIL_STREAM_ID, rulesKey(taskId), ruleSet);
+}
@@ -0,0 +1,119 @@
+import { ethers } from 'ethers';
+import { advancedSybilDetection, evaluateSybilFacts, getScoredParticipants, SybilDetectionResult } from './sybil-detection';
+import { getFingerprintBundle, StoredFingerprintBundle, SYBIL_STREAM_ID } from './fingerprint-store';
+import { getTransactionHistory, WalletActivity } from './transaction-history';
+import { getSocialLinks, SocialLink } from './social-linking';
+import { fetchCompletionTime } from './task-registry';
+import { getTaskSybilRules, RiskLevel, SybilRuleSet } from './sybil-rules';
+
+export interface SybilScoringInput {
+  taskId: number;
+  walletAddress: string;
+}
+
+/**
+ * Everything the scoring stage reads. The defaults hit 0G Storage and the chain;
+ * pass stubs to pin the score for a given set of inputs.
+ */
+export interface SybilScoringSources {
+  getFingerprintBundle(taskId: number, walletAddress: string): Promise<StoredFingerprintBundle | undefined>;
+  getWalletActivity(walletAddress: string): Promise<WalletActivity>;
+  getSocialConnections(walletAddress: string): Promise<SocialLink[]>;
+  // TaskCompletion.completionTime, in ms
+  getCompletionTime(taskId: number, walletAddress: string): Promise<number | undefined>;
+  getRules(taskId: number): Promise<SybilRuleSet>;
+  detect: typeof advancedSybilDetection;
+}
+
+export interface SybilScore extends SybilDetectionResult {
+  // Campaign stream the device ↔ wallet records were checked against
+  streamId: string;
+  // Whether the browser submitted a signed fingerprint bundle for the completion
+  attested: boolean;
+}
+
+export const defaultSybilScoringSources: SybilScoringSources = {
+  getFingerprintBundle,
+  getWalletActivity: walletAddress => getTransactionHistory().getWalletActivity(walletAddress),
+  getSocialConnections: getSocialLinks,
+  async getCompletionTime(taskId, walletAddress) {
+    const completionTime = await fetchCompletionTime(taskId, walletAddress);
+    return completionTime === undefined ? undefined : completionTime * 1000;
+  },
+  getRules: getTaskSybilRules,
+  detect: advancedSybilDetection,
+};
+
+/**
+ * KV stream for one campaign, so wallets sharing a device are counted per task
+ * rather than across every campaign ever run
+ */
+export function getCampaignStreamId(taskId: number): string {
+  return ethers.id(`${SYBIL_STREAM_ID}:campaign:${taskId}`);
+}
+
+/**
+ * Score sybil risk for a verified task completion. Lookup failures propagate so the
+ * caller can retry instead of submitting a score built from partial data.
+ */
+export async function scoreSybilRisk(
+  input: SybilScoringInput,
+  sources: SybilScoringSources = defaultSybilScoringSources
+): Promise<SybilScore> {
+  const streamId = getCampaignStreamId(input.taskId);
+  const stored = await sources.getFingerprintBundle(input.taskId, input.walletAddress);
+  if (!stored) {
+    // Without an attested device the completion cannot pass any sybil threshold
+    return {
+      score: 0,
+      riskLevel: 'HIGH',
+      factors: ['No device attestation'],
+      recommendations: ['Complete the task from the Homare app so your device can be attested'],
+      streamId,
+      attested: false,
+    };
+  }
+
+  const [activity, socialConnections, completionTime, ruleSet] = await Promise.all([
+    sources.getWalletActivity(input.walletAddress),
+    sources.getSocialConnections(input.walletAddress),
+    sources.getCompletionTime(input.taskId, input.walletAddress),
+    sources.getRules(input.taskId),
+  ]);
+  const result = await sources.detect(
+    stored.bundle.fingerprint,
+    input.walletAddress,
+    activity,
+    socialConnections,
+    streamId,
+    completionTime,
+    ruleSet
+  );
+  return { ...result, streamId, attested: true };
+}
+
+export interface SybilDryRunResult {
+  wallet: string;
+  previousScore: number;
+  score: number;
+  riskLevel: RiskLevel;
+  factors: string[];
+}
+
+/**
+ * Re-score a campaign's past participants with `ruleSet` from the facts they were last scored on.
+ * Nothing is written; scores already submitted on-chain are unaffected.
+ */
+export async function dryRunSybilRules(taskId: number, ruleSet: SybilRuleSet): Promise<SybilDryRunResult[]> {
+  const participants = await getScoredParticipants(getCampaignStreamId(taskId));
+  return participants.map(participant => {
+    const result = evaluateSybilFacts(participant.facts, ruleSet);
+    return {
+      wallet: participant.wallet,
+      previousScore: participant.score,
+      score: result.score,
+      riskLevel: result.riskLevel,
+      factors: result.factors,
+    };
+  });
+}
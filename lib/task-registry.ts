@@ -0,0 +1,192 @@
+import { ethers } from 'ethers';
+import { getProvider, OG_CHAIN_ID } from './chains';
+
+// Human-readable ABI for the TaskRegistry reads used server-side
+export const TASK_REGISTRY_READ_ABI = [
+  'function getTask(uint256 _taskId) view returns (tuple(uint256 id, address advertiser, string name, string description, uint8 category, uint8 status, uint256 rewardAmount, address rewardToken, uint256 maxParticipants, uint256 currentParticipants, uint256 startTime, uint256 endTime, string verificationCriteria, bool requiresKYC, uint256 sybilThreshold))',
+  'function taskCompletions(uint256, address) view returns (address user, uint256 taskId, bool completed, bool verified, uint256 completionTime, string proofData, uint256 sybilScore)',
+  'function verificationTimes(uint256, address) view returns (uint256)',
+  'function getAppeal(uint256 _appealId) view returns (tuple(uint256 id, uint256 taskId, address user, uint8 status, string evidenceRoot, uint256 submittedAt, address reviewer, uint256 resolvedAt, string decisionRoot))',
+  'function getPendingAppeals() view returns (uint256[])',
+  'function canReviewAppeal(uint256 _appealId, address _reviewer) view returns (bool)',
+];
+
+// TaskRegistry.TaskCategory, in enum order
+export const TASK_CATEGORIES = ['SWAP', 'BRIDGE', 'SOCIAL', 'DEFI', 'NFT', 'CUSTOM'] as const;
+export type TaskCategory = (typeof TASK_CATEGORIES)[number];
+
+// TaskRegistry.TaskStatus, in enum order
+export const TASK_STATUSES = ['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED'] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+// TaskRegistry.AppealStatus, in enum order
+export const APPEAL_STATUSES = ['NONE', 'PENDING', 'APPROVED', 'REJECTED'] as const;
+export type AppealStatus = (typeof APPEAL_STATUSES)[number];
+
+export interface RegistryTask {
+  id: number;
+  advertiser: string;
+  name: string;
+  description: string;
+  category: TaskCategory;
+  status: TaskStatus;
+  rewardAmount: bigint;
+  rewardToken: string;
+  maxParticipants: number;
+  currentParticipants: number;
+  startTime: number;
+  endTime: number;
+  verificationCriteria: string;
+  requiresKYC: boolean;
+  sybilThreshold: number;
+}
+
+export interface RegistryCompletion {
+  completed: boolean;
+  verified: boolean;
+  // Unix seconds
+  completionTime: number;
+  proofData: string;
+  sybilScore: number;
+  // When the oracle ruled on the completion (unix seconds), or undefined while it is pending
+  verifiedAt?: number;
+}
+
+export interface RegistryAppeal {
+  id: number;
+  taskId: number;
+  user: string;
+  status: AppealStatus;
+  evidenceRoot: string;
+  // Unix seconds
+  submittedAt: number;
+  reviewer?: string;
+  resolvedAt?: number;
+  decisionRoot?: string;
+}
+
+const TASK_REGISTRY_ADDRESS = process.env.NEXT_PUBLIC_TASK_REGISTRY_ADDRESS || '';
+
+function getRegistry(provider: ethers.Provider) {
+  if (!ethers.isAddress(TASK_REGISTRY_ADDRESS)) {
+    throw new Error('NEXT_PUBLIC_TASK_REGISTRY_ADDRESS is not a valid address');
+  }
+  return new ethers.Contract(TASK_REGISTRY_ADDRESS, TASK_REGISTRY_READ_ABI, provider);
+}
+
+/**
+ * Read a task from the TaskRegistry contract
+ */
+export async function fetchTask(
+  taskId: number,
+  provider: ethers.Provider = getProvider(OG_CHAIN_ID)
+): Promise<RegistryTask> {
+  const task = await getRegistry(provider).getTask(taskId);
+  if (task.id === BigInt(0)) {
+    throw new Error(`Task ${taskId} does not exist`);
+  }
+
+  return {
+    id: Number(task.id),
+    advertiser: task.advertiser,
+    name: task.name,
+    description: task.description,
+    category: TASK_CATEGORIES[Number(task.category)],
+    status: TASK_STATUSES[Number(task.status)],
+    rewardAmount: task.rewardAmount,
+    rewardToken: task.rewardToken,
+    maxParticipants: Number(task.maxParticipants),
+    currentParticipants: Number(task.currentParticipants),
+    startTime: Number(task.startTime),
+    endTime: Number(task.endTime),
+    verificationCriteria: task.verificationCriteria,
+    requiresKYC: task.requiresKYC,
+    sybilThreshold: Number(task.sybilThreshold),
+  };
+}
+
+/**
+ * Read when a wallet completed a task (unix seconds), or undefined if it has not
+ */
+export async function fetchCompletionTime(
+  taskId: number,
+  walletAddress: string,
+  provider: ethers.Provider = getProvider(OG_CHAIN_ID)
+): Promise<number | undefined> {
+  const completion = await getRegistry(provider).taskCompletions(taskId, walletAddress);
+  return completion.completed ? Number(completion.completionTime) : undefined;
+}
+
+/**
+ * Read a wallet's completion of a task, or undefined if it has not completed it
+ */
+export async function fetchCompletion(
+  taskId: number,
+  walletAddress: string,
+  provider: ethers.Provider = getProvider(OG_CHAIN_ID)
+): Promise<RegistryCompletion | undefined> {
+  const registry = getRegistry(provider);
+  const [completion, verifiedAt] = await Promise.all([
+    registry.taskCompletions(taskId, walletAddress),
+    registry.verificationTimes(taskId, walletAddress),
+  ]);
+  if (!completion.completed) {
+    return undefined;
+  }
+
+  return {
+    completed: true,
+    verified: completion.verified,
+    completionTime: Number(completion.completionTime),
+    proofData: completion.proofData,
+    sybilScore: Number(completion.sybilScore),
+    verifiedAt: verifiedAt === BigInt(0) ? undefined : Number(verifiedAt),
+  };
+}
+
+/**
+ * Read an appeal from the TaskRegistry contract
+ */
+export async function fetchAppeal(
+  appealId: number,
+  provider: ethers.Provider = getProvider(OG_CHAIN_ID)
+): Promise<RegistryAppeal> {
+  const appeal = await getRegistry(provider).getAppeal(appealId);
+  if (appeal.id === BigInt(0)) {
+    throw new Error(`Appeal ${appealId} does not exist`);
+  }
+
+  const resolved = appeal.resolvedAt !== BigInt(0);
+  return {
+    id: Number(appeal.id),
+    taskId: Number(appeal.taskId),
+    user: appeal.user,
+    status: APPEAL_STATUSES[Number(appeal.status)],
+    evidenceRoot: appeal.evidenceRoot,
+    submittedAt: Number(appeal.submittedAt),
+    reviewer: resolved ? appeal.reviewer : undefined,
+    resolvedAt: resolved ? Number(appeal.resolvedAt) : undefined,
+    decisionRoot: resolved ? appeal.decisionRoot : undefined,
+  };
+}
+
+/**
+ * Read the appeals awaiting review
+ */
+export async function fetchPendingAppeals(
+  provider: ethers.Provider = getProvider(OG_CHAIN_ID)
+): Promise<RegistryAppeal[]> {
+  const ids: bigint[] = await getRegistry(provider).getPendingAppeals();
+  return Promise.all(ids.map(id => fetchAppeal(Number(id), provider)));
+}
+
+/**
+ * Whether an address may resolve an appeal: the owner, the task's advertiser or an appeal reviewer
+ */
+export async function canReviewAppeal(
+  appealId: number,
+  reviewer: string,
+  provider: ethers.Provider = getProvider(OG_CHAIN_ID)
+): Promise<boolean> {
+  return getRegistry(provider).canReviewAppeal(appealId, reviewer);
+}
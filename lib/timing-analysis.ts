@@ -0,0 +1,214 @@
+import { ethers } from 'ethers';
+import { findJson, setJson } from './kv-store';
+import type { WalletActivity } from './transaction-history';
+
+/**
+ * What a participant's actions look like over time, stored per campaign
+ */
+export interface TimingProfile {
+  wallet: string;
+  // TaskCompletion.completionTime, in ms
+  completionTime?: number;
+  // Gaps between consecutive actions (transactions and the completion), in ms
+  intervals: number[];
+  // Gas prices of the recent transactions in gwei, keyed by chain ID
+  gasPricesByChain: Record<string, number[]>;
+  // Recent transactions, for spotting wallets whose transactions are sent in lockstep
+  transactions: { chainId: number; timestamp: number }[];
+}
+
+export const TIMING_DIMENSIONS = ['cadence', 'gas', 'interleaving'] as const;
+export type TimingDimension = (typeof TIMING_DIMENSIONS)[number];
+
+export interface TimingMatch {
+  wallet: string;
+  dimensions: TimingDimension[];
+  // Sum of the weights of the matching dimensions
+  similarity: number;
+}
+
+export interface TimingAnalysis {
+  // Other participants that look the same as this wallet
+  lookalikes: TimingMatch[];
+  // Weight of each dimension shared with at least one lookalike
+  weights: Partial<Record<TimingDimension, number>>;
+}
+
+export interface TimingAnalysisOptions {
+  weights?: Record<TimingDimension, number>;
+  // Similarity at which two wallets count as indistinguishable
+  threshold?: number;
+  // Relative difference below which two means (or spreads) count as equal
+  tolerance?: number;
+  // Samples a dimension needs before it is compared
+  minSamples?: number;
+  // Two wallets' transactions on a chain this close together count as sent in lockstep, in ms
+  interleaveWindowMs?: number;
+}
+
+const DEFAULT_WEIGHTS: Record<TimingDimension, number> = { cadence: 0.4, gas: 0.35, interleaving: 0.25 };
+const DEFAULT_THRESHOLD = 0.6;
+const DEFAULT_TOLERANCE = 0.05;
+const DEFAULT_MIN_SAMPLES = 3;
+const DEFAULT_INTERLEAVE_WINDOW_MS = 60 * 1000;
+
+interface Summary {
+  mean: number;
+  stdDev: number;
+}
+
+function summarize(values: number[]): Summary {
+  const mean = values.reduce((total, value) => total + value, 0) / values.length;
+  const variance = values.reduce((total, value) => total + (value - mean) ** 2, 0) / values.length;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+function close(a: number, b: number, tolerance: number) {
+  return Math.abs(a - b) <= tolerance * Math.max(Math.abs(a), Math.abs(b), 1);
+}
+
+/**
+ * Two samples are indistinguishable when both their means and their spreads agree,
+ * so scripted regularity matches and two humans with similar averages do not
+ */
+function indistinguishable(a: number[], b: number[], tolerance: number, minSamples: number) {
+  if (a.length < minSamples || b.length < minSamples) return false;
+  const sa = summarize(a);
+  const sb = summarize(b);
+  return close(sa.mean, sb.mean, tolerance) && close(sa.stdDev, sb.stdDev, tolerance);
+}
+
+/**
+ * Gas prices on the chains where the campaign's participants paid different prices. On chains
+ * with a fixed gas price every wallet looks the same, so those prices say nothing.
+ */
+function variableGasPrices(profile: TimingProfile, campaign: TimingProfile[]): number[] {
+  return Object.entries(profile.gasPricesByChain ?? {})
+    .filter(([chainId]) => {
+      const prices = campaign.flatMap(other => other.gasPricesByChain?.[chainId] ?? []);
+      return summarize(prices).stdDev > 0;
+    })
+    .flatMap(([, prices]) => prices);
+}
+
+/**
+ * How often one wallet's transaction directly follows the other's on the same chain within
+ * `windowMs`, as when a script cycles through its wallets
+ */
+function countInterleaved(a: TimingProfile, b: TimingProfile, windowMs: number): number {
+  const merged = [
+    ...(a.transactions ?? []).map(tx => ({ ...tx, wallet: a.wallet })),
+    ...(b.transactions ?? []).map(tx => ({ ...tx, wallet: b.wallet })),
+  ].sort((x, y) => x.chainId - y.chainId || x.timestamp - y.timestamp);
+
+  let count = 0;
+  for (let i = 1; i < merged.length; i++) {
+    const [previous, current] = [merged[i - 1], merged[i]];
+    if (
+      previous.chainId === current.chainId &&
+      previous.wallet !== current.wallet &&
+      current.timestamp - previous.timestamp <= windowMs
+    ) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Build a wallet's timing profile from its on-chain activity and task completion time
+ */
+export function buildTimingProfile(walletAddress: string, activity: WalletActivity, completionTime?: number): TimingProfile {
+  const actionTimes = Array.from(
+    new Set([...activity.recentTransactions.map(tx => tx.timestamp), ...(completionTime ? [completionTime] : [])])
+  ).sort((a, b) => a - b);
+
+  const gasPricesByChain: Record<string, number[]> = {};
+  for (const tx of activity.recentTransactions) {
+    const gwei = Number(ethers.formatUnits(tx.gasPrice, 'gwei'));
+    gasPricesByChain[tx.chainId] = [...(gasPricesByChain[tx.chainId] ?? []), gwei];
+  }
+
+  return {
+    wallet: walletAddress.toLowerCase(),
+    completionTime,
+    intervals: actionTimes.slice(1).map((time, i) => time - actionTimes[i]),
+    gasPricesByChain,
+    transactions: activity.recentTransactions.map(tx => ({ chainId: tx.chainId, timestamp: tx.timestamp })),
+  };
+}
+
+/**
+ * Compare one participant's profile with the rest of the campaign
+ */
+export function compareTimingProfiles(
+  profile: TimingProfile,
+  others: TimingProfile[],
+  options: TimingAnalysisOptions = {}
+): TimingAnalysis {
+  const weights = options.weights ?? DEFAULT_WEIGHTS;
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const interleaveWindowMs = options.interleaveWindowMs ?? DEFAULT_INTERLEAVE_WINDOW_MS;
+  const campaign = [profile, ...others];
+
+  const lookalikes: TimingMatch[] = [];
+  for (const other of others) {
+    if (other.wallet === profile.wallet) continue;
+
+    const dimensions = TIMING_DIMENSIONS.filter(dimension => {
+      switch (dimension) {
+        case 'cadence':
+          return indistinguishable(profile.intervals, other.intervals, tolerance, minSamples);
+        case 'gas':
+          return indistinguishable(
+            variableGasPrices(profile, campaign),
+            variableGasPrices(other, campaign),
+            tolerance,
+            minSamples
+          );
+        case 'interleaving':
+          return countInterleaved(profile, other, interleaveWindowMs) >= minSamples;
+      }
+    });
+    const similarity = dimensions.reduce((total, dimension) => total + weights[dimension], 0);
+    if (similarity >= threshold) {
+      lookalikes.push({ wallet: other.wallet, dimensions, similarity });
+    }
+  }
+
+  const matched: Partial<Record<TimingDimension, number>> = {};
+  for (const dimension of TIMING_DIMENSIONS) {
+    if (lookalikes.some(match => match.dimensions.includes(dimension))) {
+      matched[dimension] = weights[dimension];
+    }
+  }
+  return { lookalikes: lookalikes.sort((a, b) => b.similarity - a.similarity), weights: matched };
+}
+
+async function getTimingProfiles(streamId: string): Promise<TimingProfile[]> {
+  return (await findJson<TimingProfile[]>(streamId, 'timingProfiles')) ?? [];
+}
+
+async function setTimingProfiles(streamId: string, profiles: TimingProfile[]) {
+  return setJson(streamId, 'timingProfiles', profiles);
+}
+
+/**
+ * Record a participant's timing profile in the campaign stream and compare it with every
+ * participant scored before
+ */
+export async function analyzeTimingPatterns(
+  walletAddress: string,
+  activity: WalletActivity,
+  completionTime: number | undefined,
+  streamId: string,
+  options: TimingAnalysisOptions = {}
+): Promise<TimingAnalysis> {
+  const profile = buildTimingProfile(walletAddress, activity, completionTime);
+  const existing = await getTimingProfiles(streamId);
+  const others = existing.filter(other => other.wallet !== profile.wallet);
+  await setTimingProfiles(streamId, [...others, profile]);
+  return compareTimingProfiles(profile, others, options);
+}
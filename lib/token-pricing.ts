@@ -0,0 +1,80 @@
+import { ethers } from 'ethers';
+
+const AGGREGATOR_ABI = [
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() view returns (uint8)',
+];
+
+// Stablecoins valued at 1 USD, keyed by chain ID
+const USD_STABLECOINS: Record<number, string[]> = {
+  1: [
+    '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', // USDC
+    '0xdac17f958d2ee523a2206206994597c13d831ec7', // USDT
+    '0x6b175474e89094c44da98b954eedeac495271d0f', // DAI
+  ],
+  137: ['0x3c499c542cef5e3811e1192ce70d8cc03d5c3359'], // USDC
+  42161: ['0xaf88d065e77c8cc2239327c5edb3a432268e5831'], // USDC
+  10: ['0x0b2c639c533813f4aa9d7837caf62653d097ff85'], // USDC
+  8453: ['0x833589fcd6edb6e08f4c7c32d4f71b954b9e4e5a'], // USDC
+};
+
+// Chainlink USD price feeds, keyed by `<chainId>:<token>` (zero address = native currency)
+const DEFAULT_PRICE_FEEDS: Record<string, string> = {
+  [`1:${ethers.ZeroAddress}`]: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', // ETH / USD
+  '1:0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419', // WETH / USD
+};
+
+/**
+ * Price feeds, extended through TOKEN_PRICE_FEEDS (JSON object of `<chainId>:<token>` → feed address)
+ */
+function getPriceFeeds(): Record<string, string> {
+  const extra = process.env.TOKEN_PRICE_FEEDS ? JSON.parse(process.env.TOKEN_PRICE_FEEDS) : {};
+  return { ...DEFAULT_PRICE_FEEDS, ...extra };
+}
+
+/**
+ * Get the USD price of a token, optionally at a historical block.
+ * Returns undefined when no price source is configured for the token.
+ */
+export async function getTokenUsdPrice(
+  provider: ethers.Provider,
+  chainId: number,
+  tokenAddress: string,
+  blockTag?: ethers.BlockTag
+): Promise<number | undefined> {
+  const token = tokenAddress.toLowerCase();
+  if (USD_STABLECOINS[chainId]?.includes(token)) {
+    return 1;
+  }
+
+  const feeds = getPriceFeeds();
+  const feedAddress = feeds[`${chainId}:${token}`];
+  if (!feedAddress) {
+    return undefined;
+  }
+
+  const feed = new ethers.Contract(feedAddress, AGGREGATOR_ABI, provider);
+  const [roundData, decimals] = await Promise.all([
+    feed.latestRoundData({ blockTag }),
+    feed.decimals({ blockTag }),
+  ]);
+  return Number(ethers.formatUnits(roundData.answer, decimals));
+}
+
+/**
+ * Value a raw token amount in USD, or undefined when the token cannot be priced
+ */
+export async function getTokenUsdValue(
+  provider: ethers.Provider,
+  chainId: number,
+  tokenAddress: string,
+  amount: bigint,
+  decimals: number,
+  blockTag?: ethers.BlockTag
+): Promise<number | undefined> {
+  const price = await getTokenUsdPrice(provider, chainId, tokenAddress, blockTag);
+  if (price === undefined) {
+    return undefined;
+  }
+  return Number(ethers.formatUnits(amount, decimals)) * price;
+}
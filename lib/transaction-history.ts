@@ -0,0 +1,223 @@
+import { ethers } from 'ethers';
+import { getProvider, OG_CHAIN_ID } from './chains';
+
+export interface WalletTransaction {
+  chainId: number;
+  hash: string;
+  blockNumber: number;
+  // Block timestamp, in ms
+  timestamp: number;
+  from: string;
+  to: string | null;
+  value: bigint;
+  nonce: number;
+  gasPrice: bigint;
+}
+
+/**
+ * What one chain knows about a wallet
+ */
+export interface ChainHistory {
+  chainId: number;
+  walletAddress: string;
+  // Transactions sent, i.e. the wallet's nonce at the head block
+  transactionCount: number;
+  // Most recent outgoing transactions, newest first
+  recentTransactions: WalletTransaction[];
+  // First block the wallet held a balance or sent a transaction in
+  firstSeenBlock?: number;
+  firstSeenAt?: number;
+  // Sender of the transfer that first gave the wallet gas money
+  fundingSource?: string;
+  fundingTransfer?: WalletTransaction;
+  counterparties: string[];
+}
+
+/**
+ * A wallet's history merged across every configured chain
+ */
+export interface WalletActivity {
+  walletAddress: string;
+  transactionCount: number;
+  recentTransactions: WalletTransaction[];
+  // Earliest first-seen time on any chain; undefined for a wallet that was never used
+  firstSeenAt?: number;
+  fundingSources: string[];
+  fundingTransfers: WalletTransaction[];
+  counterparties: string[];
+  chains: ChainHistory[];
+}
+
+export interface TransactionHistoryOptions {
+  chainIds: number[];
+  // Outgoing transactions fetched per chain
+  maxTransactions?: number;
+  cacheTtlMs?: number;
+  getProvider?: (chainId: number) => ethers.Provider;
+}
+
+export interface TransactionHistory {
+  getChainHistory(walletAddress: string, chainId: number): Promise<ChainHistory>;
+  getWalletActivity(walletAddress: string): Promise<WalletActivity>;
+}
+
+/**
+ * Smallest block in [low, high] for which `predicate` holds, assuming it stays true once it does.
+ * Returns undefined if it does not hold at `high`.
+ */
+async function findFirstBlock(
+  low: number,
+  high: number,
+  predicate: (blockNumber: number) => Promise<boolean>
+): Promise<number | undefined> {
+  if (!(await predicate(high))) return undefined;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (await predicate(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+function toWalletTransaction(chainId: number, block: ethers.Block, tx: ethers.TransactionResponse): WalletTransaction {
+  return {
+    chainId,
+    hash: tx.hash,
+    blockNumber: block.number,
+    timestamp: block.timestamp * 1000,
+    from: tx.from,
+    to: tx.to,
+    value: tx.value,
+    nonce: tx.nonce,
+    gasPrice: tx.gasPrice,
+  };
+}
+
+function unique(addresses: (string | null | undefined)[]): string[] {
+  return Array.from(new Set(addresses.filter((a): a is string => !!a).map(a => a.toLowerCase())));
+}
+
+/**
+ * Create a wallet history reader over plain JSON-RPC. Without an indexer, history is
+ * recovered by binary-searching nonce and balance over block heights, so every configured
+ * chain needs an archive endpoint (RPC_URL_<chainId>). Results are cached per (chain, wallet).
+ */
+export function createTransactionHistory(options: TransactionHistoryOptions): TransactionHistory {
+  const maxTransactions = options.maxTransactions ?? 10;
+  const cacheTtlMs = options.cacheTtlMs ?? 10 * 60 * 1000;
+  const providerFor = options.getProvider ?? getProvider;
+  const cache = new Map<string, { expiresAt: number; history: Promise<ChainHistory> }>();
+
+  const fetchChainHistory = async (walletAddress: string, chainId: number): Promise<ChainHistory> => {
+    const provider = providerFor(chainId);
+    const wallet = walletAddress.toLowerCase();
+    const head = await provider.getBlockNumber();
+    const nonceAt = (blockNumber: number) => provider.getTransactionCount(walletAddress, blockNumber);
+
+    const [transactionCount, balance] = await Promise.all([nonceAt(head), provider.getBalance(walletAddress, head)]);
+    const history: ChainHistory = {
+      chainId,
+      walletAddress,
+      transactionCount,
+      recentTransactions: [],
+      counterparties: [],
+    };
+    if (transactionCount === 0 && balance === BigInt(0)) {
+      return history;
+    }
+
+    // A wallet can only empty itself by sending, so "funded or has sent" never goes back to false
+    const firstSeenBlock = await findFirstBlock(0, head, async blockNumber => {
+      const [nonce, balanceAt] = await Promise.all([
+        nonceAt(blockNumber),
+        provider.getBalance(walletAddress, blockNumber),
+      ]);
+      return nonce > 0 || balanceAt > BigInt(0);
+    });
+    if (firstSeenBlock === undefined) {
+      return history;
+    }
+
+    const firstBlock = await provider.getBlock(firstSeenBlock, true);
+    history.firstSeenBlock = firstSeenBlock;
+    history.firstSeenAt = firstBlock ? firstBlock.timestamp * 1000 : undefined;
+    // Funding through an internal call (e.g. a contract wallet) leaves no top-level transfer to find
+    const funding = firstBlock?.prefetchedTransactions.find(
+      tx => tx.to?.toLowerCase() === wallet && tx.value > BigInt(0)
+    );
+    if (firstBlock && funding) {
+      history.fundingSource = funding.from;
+      history.fundingTransfer = toWalletTransaction(chainId, firstBlock, funding);
+    }
+
+    // Nonce n was used in the first block where the nonce exceeds n
+    let upper = head;
+    for (let nonce = transactionCount - 1; nonce >= Math.max(0, transactionCount - maxTransactions); nonce--) {
+      const blockNumber = await findFirstBlock(firstSeenBlock, upper, async b => (await nonceAt(b)) > nonce);
+      if (blockNumber === undefined) break;
+      upper = blockNumber;
+
+      const block = await provider.getBlock(blockNumber, true);
+      const tx = block?.prefetchedTransactions.find(t => t.from.toLowerCase() === wallet && t.nonce === nonce);
+      if (!block || !tx) continue;
+      history.recentTransactions.push(toWalletTransaction(chainId, block, tx));
+    }
+
+    history.counterparties = unique([...history.recentTransactions.map(tx => tx.to), history.fundingSource]);
+    return history;
+  };
+
+  const getChainHistory = (walletAddress: string, chainId: number): Promise<ChainHistory> => {
+    const key = `${chainId}:${walletAddress.toLowerCase()}`;
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.history;
+    }
+
+    const history = fetchChainHistory(walletAddress, chainId);
+    cache.set(key, { expiresAt: Date.now() + cacheTtlMs, history });
+    // Don't cache failures; the next caller retries
+    history.catch(() => cache.delete(key));
+    return history;
+  };
+
+  return {
+    getChainHistory,
+
+    async getWalletActivity(walletAddress) {
+      const chains = await Promise.all(options.chainIds.map(chainId => getChainHistory(walletAddress, chainId)));
+      const firstSeen = chains.map(chain => chain.firstSeenAt).filter((t): t is number => t !== undefined);
+      return {
+        walletAddress,
+        transactionCount: chains.reduce((total, chain) => total + chain.transactionCount, 0),
+        recentTransactions: chains
+          .flatMap(chain => chain.recentTransactions)
+          .sort((a, b) => b.timestamp - a.timestamp),
+        firstSeenAt: firstSeen.length > 0 ? Math.min(...firstSeen) : undefined,
+        fundingSources: unique(chains.map(chain => chain.fundingSource)),
+        fundingTransfers: chains.flatMap(chain => (chain.fundingTransfer ? [chain.fundingTransfer] : [])),
+        counterparties: unique(chains.flatMap(chain => chain.counterparties)),
+        chains,
+      };
+    },
+  };
+}
+
+let defaultHistory: TransactionHistory | undefined;
+
+/**
+ * Shared history reader for the chains in SYBIL_HISTORY_CHAIN_IDS (comma-separated; defaults to the ØG chain)
+ */
+export function getTransactionHistory(): TransactionHistory {
+  if (!defaultHistory) {
+    const chainIds = (process.env.SYBIL_HISTORY_CHAIN_IDS || String(OG_CHAIN_ID))
+      .split(',')
+      .map(id => Number(id.trim()))
+      .filter(id => Number.isInteger(id) && id > 0);
+    defaultHistory = createTransactionHistory({ chainIds });
+  }
+  return defaultHistory;
+}
@@ -0,0 +1,137 @@
+import { ethers } from 'ethers';
+import { getProvider, OG_CHAIN_ID } from './chains';
+
+export const ERC20_ABI = [
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'function decimals() view returns (uint8)',
+];
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+const TRANSFER_TOPIC = erc20Interface.getEvent('Transfer')!.topicHash;
+
+// Plain decimal amounts in token units, e.g. "1" or "0.25" (no exponents or signs)
+export const DECIMAL_AMOUNT_PATTERN = /^\d+(\.\d+)?$/;
+
+/**
+ * The expected amount cannot be expressed in the token's units
+ */
+export class InvalidAmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidAmountError';
+  }
+}
+
+export interface TransactionVerificationRequest {
+  txHash: string;
+  walletAddress: string;
+  expectedAmount: number | string;
+  tokenAddress: string;
+  chainId?: number;
+}
+
+export interface TransactionVerificationResult {
+  verified: boolean;
+  details: string;
+  blockNumber?: number;
+  transferredAmount?: string;
+}
+
+/**
+ * Check whether a token address refers to the chain's native currency
+ */
+export function isNativeToken(tokenAddress: string | undefined): boolean {
+  return !tokenAddress || tokenAddress.toLowerCase() === ethers.ZeroAddress;
+}
+
+/**
+ * Sum the ERC-20 Transfer logs of `tokenAddress` sent by `walletAddress` in a receipt
+ */
+export function sumTokenTransfers(
+  logs: readonly ethers.Log[],
+  tokenAddress: string,
+  walletAddress: string
+): bigint {
+  const token = tokenAddress.toLowerCase();
+  const wallet = walletAddress.toLowerCase();
+
+  return logs.reduce((total, log) => {
+    if (log.address.toLowerCase() !== token || log.topics[0] !== TRANSFER_TOPIC) {
+      return total;
+    }
+    const parsed = erc20Interface.parseLog(log);
+    if (!parsed || (parsed.args.from as string).toLowerCase() !== wallet) {
+      return total;
+    }
+    return total + (parsed.args.value as bigint);
+  }, BigInt(0));
+}
+
+/**
+ * Convert a decimal amount to the token's base units, rejecting amounts with more
+ * fractional digits than the token has
+ */
+export function parseTokenAmount(amount: number | string, decimals: number): bigint {
+  const value = String(amount);
+  if (!DECIMAL_AMOUNT_PATTERN.test(value)) {
+    throw new InvalidAmountError(`Invalid amount: ${value}`);
+  }
+  const fraction = value.split('.')[1] ?? '';
+  if (fraction.length > decimals) {
+    throw new InvalidAmountError(`Amount ${value} has more than ${decimals} decimals`);
+  }
+  return ethers.parseUnits(value, decimals);
+}
+
+/**
+ * Verify a transfer transaction on-chain: the transaction succeeded, was sent by
+ * `walletAddress`, and moved at least `expectedAmount` (in token units) of `tokenAddress`
+ */
+export async function verifyTokenTransfer(
+  request: TransactionVerificationRequest,
+  provider: ethers.Provider = getProvider(request.chainId ?? OG_CHAIN_ID)
+): Promise<TransactionVerificationResult> {
+  const { txHash, walletAddress, expectedAmount, tokenAddress } = request;
+
+  const receipt = await provider.getTransactionReceipt(txHash);
+  if (!receipt) {
+    return { verified: false, details: 'Transaction not found' };
+  }
+  if (receipt.status !== 1) {
+    return { verified: false, details: 'Transaction reverted', blockNumber: receipt.blockNumber };
+  }
+  if (receipt.from.toLowerCase() !== walletAddress.toLowerCase()) {
+    return { verified: false, details: 'Transaction sender does not match wallet', blockNumber: receipt.blockNumber };
+  }
+
+  let transferred: bigint;
+  let decimals: number;
+  if (isNativeToken(tokenAddress)) {
+    const tx = await provider.getTransaction(txHash);
+    transferred = tx?.value ?? BigInt(0);
+    decimals = 18;
+  } else {
+    const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider);
+    decimals = Number(await token.decimals());
+    transferred = sumTokenTransfers(receipt.logs, tokenAddress, walletAddress);
+  }
+
+  const expected = parseTokenAmount(expectedAmount, decimals);
+  const transferredAmount = ethers.formatUnits(transferred, decimals);
+
+  if (transferred < expected) {
+    return {
+      verified: false,
+      details: `Transferred amount ${transferredAmount} is below expected ${expectedAmount}`,
+      blockNumber: receipt.blockNumber,
+      transferredAmount,
+    };
+  }
+
+  return {
+    verified: true,
+    details: 'Transaction verified',
+    blockNumber: receipt.blockNumber,
+    transferredAmount,
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * Minimal HTTP surface the Twitter client needs; `fetch` satisfies it.
+ * Swap it out (or point `baseUrl` at a local mock server) in tests.
+ */
+export type HttpClient = (url: string, init: { method: string; headers: Record<string, string> }) => Promise<{
+  ok: boolean;
+  status: number;
+  headers: { get(name: string): string | null };
+  json(): Promise<any>;
+}>;
+
+export interface TwitterClientOptions {
+  bearerToken: string;
+  baseUrl?: string;
+  httpClient?: HttpClient;
+  maxRetries?: number;
+  // Longest we are willing to wait for a rate-limit window to reset
+  maxRateLimitWaitMs?: number;
+  // Pages fetched before giving up on a paginated lookup
+  maxPages?: number;
+}
+
+export interface TwitterUser {
+  id: string;
+  username: string;
+  name?: string;
+  created_at?: string;
+  description?: string;
+}
+
+export interface TwitterTweet {
+  id: string;
+  text: string;
+  author_id?: string;
+  referenced_tweets?: { type: 'retweeted' | 'quoted' | 'replied_to'; id: string }[];
+}
+
+export class TwitterApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'TwitterApiError';
+  }
+}
+
+export interface TwitterClient {
+  getUserByUsername(username: string): Promise<TwitterUser | undefined>;
+  getUserById(userId: string): Promise<TwitterUser | undefined>;
+  getTweet(tweetId: string): Promise<TwitterTweet | undefined>;
+  isFollowing(sourceUserId: string, targetUserId: string): Promise<boolean>;
+  hasLiked(userId: string, tweetId: string): Promise<boolean>;
+  hasRetweeted(userId: string, tweetId: string): Promise<boolean>;
+  findQuoteTweet(userId: string, tweetId: string): Promise<TwitterTweet | undefined>;
+  // Searches the user's timeline, which the API caps at their 3200 most recent tweets
+  findReply(userId: string, tweetId: string): Promise<TwitterTweet | undefined>;
+}
+
+const DEFAULT_BASE_URL = 'https://api.twitter.com/2';
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Create an X API v2 client with rate-limit-aware retries.
+ * On 429 it waits until `x-rate-limit-reset`; on 5xx it backs off exponentially.
+ */
+export function createTwitterClient(options: TwitterClientOptions): TwitterClient {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const httpClient: HttpClient = options.httpClient ?? ((url, init) => fetch(url, init));
+  const maxRetries = options.maxRetries ?? 3;
+  const maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60_000;
+  const maxPages = options.maxPages ?? 10;
+
+  const get = async (path: string, params: Record<string, string | undefined> = {}): Promise<any> => {
+    const query = new URLSearchParams(
+      Object.entries(params).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    ).toString();
+    const url = `${baseUrl}${path}${query ? `?${query}` : ''}`;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await httpClient(url, {
+        method: 'GET',
+        headers: { Authorization: `Bearer ${options.bearerToken}` },
+      });
+      if (response.ok) {
+        return response.json();
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable || attempt >= maxRetries) {
+        throw new TwitterApiError(`Twitter API request failed: ${response.status} ${path}`, response.status);
+      }
+
+      let waitMs = 1000 * 2 ** attempt;
+      if (response.status === 429) {
+        const reset = Number(response.headers.get('x-rate-limit-reset'));
+        if (reset) waitMs = Math.max(0, reset * 1000 - Date.now()) + 1000;
+        if (waitMs > maxRateLimitWaitMs) {
+          throw new TwitterApiError('Twitter API rate limit exceeded', 429);
+        }
+      }
+      await sleep(waitMs);
+    }
+  };
+
+  // Walk a paginated endpoint until `match` returns a value or pages run out
+  const findInPages = async <T, R>(
+    path: string,
+    params: Record<string, string | undefined>,
+    match: (items: T[]) => R | undefined
+  ): Promise<R | undefined> => {
+    let paginationToken: string | undefined;
+    for (let page = 0; page < maxPages; page++) {
+      const body = await get(path, { ...params, pagination_token: paginationToken });
+      const found = match((body.data ?? []) as T[]);
+      if (found !== undefined) return found;
+      paginationToken = body.meta?.next_token;
+      if (!paginationToken) return undefined;
+    }
+    return undefined;
+  };
+
+  const userFields = 'created_at,description';
+
+  return {
+    async getUserByUsername(username) {
+      try {
+        const body = await get(`/users/by/username/${encodeURIComponent(username.replace(/^@/, ''))}`, {
+          'user.fields': userFields,
+        });
+        return body.data;
+      } catch (error) {
+        if (error instanceof TwitterApiError && error.status === 404) return undefined;
+        throw error;
+      }
+    },
+
+    async getUserById(userId) {
+      try {
+        const body = await get(`/users/${encodeURIComponent(userId)}`, { 'user.fields': userFields });
+        return body.data;
+      } catch (error) {
+        if (error instanceof TwitterApiError && error.status === 404) return undefined;
+        throw error;
+      }
+    },
+
+    async getTweet(tweetId) {
+      try {
+        const body = await get(`/tweets/${encodeURIComponent(tweetId)}`, {
+          'tweet.fields': 'author_id,referenced_tweets',
+        });
+        return body.data;
+      } catch (error) {
+        if (error instanceof TwitterApiError && error.status === 404) return undefined;
+        throw error;
+      }
+    },
+
+    async isFollowing(sourceUserId, targetUserId) {
+      const found = await findInPages<TwitterUser, true>(
+        `/users/${encodeURIComponent(sourceUserId)}/following`,
+        { max_results: '1000' },
+        users => (users.some(user => user.id === targetUserId) ? true : undefined)
+      );
+      return found === true;
+    },
+
+    async hasLiked(userId, tweetId) {
+      const found = await findInPages<TwitterUser, true>(
+        `/tweets/${encodeURIComponent(tweetId)}/liking_users`,
+        { max_results: '100' },
+        users => (users.some(user => user.id === userId) ? true : undefined)
+      );
+      return found === true;
+    },
+
+    async hasRetweeted(userId, tweetId) {
+      const found = await findInPages<TwitterUser, true>(
+        `/tweets/${encodeURIComponent(tweetId)}/retweeted_by`,
+        { max_results: '100' },
+        users => (users.some(user => user.id === userId) ? true : undefined)
+      );
+      return found === true;
+    },
+
+    async findQuoteTweet(userId, tweetId) {
+      return findInPages<TwitterTweet, TwitterTweet>(
+        `/tweets/${encodeURIComponent(tweetId)}/quote_tweets`,
+        { max_results: '100', 'tweet.fields': 'author_id,referenced_tweets' },
+        tweets => tweets.find(tweet => tweet.author_id === userId)
+      );
+    },
+
+    async findReply(userId, tweetId) {
+      return findInPages<TwitterTweet, TwitterTweet>(
+        `/users/${encodeURIComponent(userId)}/tweets`,
+        { max_results: '100', 'tweet.fields': 'author_id,referenced_tweets' },
+        tweets =>
+          tweets.find(tweet => tweet.referenced_tweets?.some(ref => ref.type === 'replied_to' && ref.id === tweetId))
+      );
+    },
+  };
+}
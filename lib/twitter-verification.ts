@@ -0,0 +1,85 @@
+import { createTwitterClient, TwitterClient } from './twitter-client';
+
+export const TWITTER_ACTIONS = ['follow', 'like', 'retweet', 'reply', 'quote'] as const;
+export type TwitterAction = (typeof TWITTER_ACTIONS)[number];
+
+export interface TwitterActionRequest {
+  action: TwitterAction;
+  // Tweet the action targets (like, retweet, reply, quote)
+  tweetId?: string;
+  // Account that performed the action
+  userId?: string;
+  username?: string;
+  // Account that must be followed (follow)
+  targetUserId?: string;
+  targetUsername?: string;
+}
+
+export interface TwitterActionResult {
+  verified: boolean;
+  details: string;
+  userId?: string;
+}
+
+/**
+ * Build a Twitter client from TWITTER_BEARER_TOKEN.
+ * TWITTER_API_BASE_URL points it at a mock server for local testing.
+ */
+export function getTwitterClient(): TwitterClient {
+  const bearerToken = process.env.TWITTER_BEARER_TOKEN;
+  if (!bearerToken) {
+    throw new Error('TWITTER_BEARER_TOKEN is not defined');
+  }
+  return createTwitterClient({ bearerToken, baseUrl: process.env.TWITTER_API_BASE_URL });
+}
+
+async function resolveUserId(client: TwitterClient, userId?: string, username?: string): Promise<string | undefined> {
+  if (userId) return userId;
+  if (!username) return undefined;
+  return (await client.getUserByUsername(username))?.id;
+}
+
+/**
+ * Check a Twitter action against the X API v2
+ */
+export async function checkTwitterAction(
+  client: TwitterClient,
+  request: TwitterActionRequest
+): Promise<TwitterActionResult> {
+  const userId = await resolveUserId(client, request.userId, request.username);
+  if (!userId) {
+    return { verified: false, details: 'Twitter account not found' };
+  }
+
+  if (request.action === 'follow') {
+    const targetUserId = await resolveUserId(client, request.targetUserId, request.targetUsername);
+    if (!targetUserId) {
+      return { verified: false, details: 'Target account not found', userId };
+    }
+    const verified = await client.isFollowing(userId, targetUserId);
+    return { verified, details: verified ? 'Follow verified' : 'Account does not follow target', userId };
+  }
+
+  if (!request.tweetId) {
+    return { verified: false, details: 'Missing tweet ID', userId };
+  }
+
+  switch (request.action) {
+    case 'like': {
+      const verified = await client.hasLiked(userId, request.tweetId);
+      return { verified, details: verified ? 'Like verified' : 'Tweet not liked', userId };
+    }
+    case 'retweet': {
+      const verified = await client.hasRetweeted(userId, request.tweetId);
+      return { verified, details: verified ? 'Retweet verified' : 'Tweet not retweeted', userId };
+    }
+    case 'reply': {
+      const reply = await client.findReply(userId, request.tweetId);
+      return { verified: !!reply, details: reply ? 'Reply verified' : 'Tweet not replied to', userId };
+    }
+    case 'quote': {
+      const quote = await client.findQuoteTweet(userId, request.tweetId);
+      return { verified: !!quote, details: quote ? 'Quote tweet verified' : 'Tweet not quoted', userId };
+    }
+  }
+}
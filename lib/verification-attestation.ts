@@ -0,0 +1,175 @@
+import { ethers } from 'ethers';
+import { findJson, setJson } from './kv-store';
+import type { VerificationResult } from './verification-oracle';
+
+export const ORACLE_STREAM_ID = process.env.ORACLE_STREAM_ID || ethers.id('homare:oracle');
+
+export const VERIFICATION_ATTESTATION_TYPES: Record<string, ethers.TypedDataField[]> = {
+  VerificationAttestation: [
+    { name: 'requestId', type: 'uint256' },
+    { name: 'taskId', type: 'uint256' },
+    { name: 'user', type: 'address' },
+    { name: 'verificationType', type: 'uint8' },
+    { name: 'verified', type: 'bool' },
+    { name: 'sybilScore', type: 'uint256' },
+    { name: 'evidence', type: 'string' },
+    { name: 'details', type: 'string' },
+    { name: 'timestamp', type: 'uint256' },
+    { name: 'evidenceRoot', type: 'bytes32' },
+  ],
+};
+
+/**
+ * A VerificationResult bound to the gateway request it answers
+ */
+export interface VerificationAttestation {
+  // Decimal string, so it survives JSON
+  requestId: string;
+  taskId: number;
+  user: string;
+  // VerifierGateway.VerificationType index
+  verificationType: number;
+  verified: boolean;
+  // The score submitted on-chain (0-100)
+  sybilScore: number;
+  // The verifier's own proof hash
+  evidence: string;
+  details: string;
+  // VerificationResult.timestamp, in ms
+  timestamp: number;
+  // 0G Storage root hash of the archived evidence bundle
+  evidenceRoot: string;
+}
+
+export interface AttestationDomain {
+  chainId: number;
+  verifyingContract: string;
+}
+
+export interface SignedVerificationAttestation {
+  attestation: VerificationAttestation;
+  domain: AttestationDomain;
+  // EIP-712 digest of the attestation; submitted to completeVerification as `_proofHash`
+  proofHash: string;
+  signature: string;
+  oracle: string;
+}
+
+/**
+ * What the gateway stored for a request, i.e. `getVerificationRequest(id).result`
+ */
+export interface OnChainVerificationResult {
+  verified: boolean;
+  sybilScore: bigint | number;
+  proofHash: string;
+  verifier: string;
+}
+
+export function getAttestationDomain(domain: AttestationDomain): ethers.TypedDataDomain {
+  return { name: 'Homare VerifierGateway', version: '1', ...domain };
+}
+
+export function buildVerificationAttestation(
+  request: { requestId: bigint | string; taskId: number; user: string; verificationType: number },
+  result: VerificationResult,
+  sybilScore: number,
+  evidenceRoot: string
+): VerificationAttestation {
+  return {
+    requestId: request.requestId.toString(),
+    taskId: request.taskId,
+    user: ethers.getAddress(request.user),
+    verificationType: request.verificationType,
+    verified: result.verified,
+    sybilScore,
+    evidence: result.proofHash,
+    details: result.details,
+    timestamp: result.timestamp,
+    evidenceRoot,
+  };
+}
+
+/**
+ * keccak256 over the EIP-712 encoding of the attestation
+ */
+export function hashVerificationAttestation(attestation: VerificationAttestation, domain: AttestationDomain): string {
+  return ethers.TypedDataEncoder.hash(getAttestationDomain(domain), VERIFICATION_ATTESTATION_TYPES, attestation);
+}
+
+/**
+ * Sign an attestation with the oracle key
+ */
+export async function signVerificationAttestation(
+  signer: ethers.Signer,
+  attestation: VerificationAttestation,
+  domain: AttestationDomain
+): Promise<SignedVerificationAttestation> {
+  const signature = await signer.signTypedData(
+    getAttestationDomain(domain),
+    VERIFICATION_ATTESTATION_TYPES,
+    attestation
+  );
+  return {
+    attestation,
+    domain,
+    proofHash: hashVerificationAttestation(attestation, domain),
+    signature,
+    oracle: await signer.getAddress(),
+  };
+}
+
+/**
+ * Check a signed attestation: its hash, the oracle's signature and, when given, that it
+ * matches what the gateway recorded for the request
+ */
+export function verifyVerificationAttestation(
+  signed: SignedVerificationAttestation,
+  onChain?: OnChainVerificationResult
+): { valid: boolean; details: string } {
+  let proofHash: string;
+  let signer: string;
+  try {
+    proofHash = hashVerificationAttestation(signed.attestation, signed.domain);
+    signer = ethers.recoverAddress(proofHash, signed.signature);
+  } catch {
+    return { valid: false, details: 'Malformed attestation' };
+  }
+
+  if (proofHash !== signed.proofHash) {
+    return { valid: false, details: 'Proof hash does not match the attestation' };
+  }
+  if (signer.toLowerCase() !== signed.oracle.toLowerCase()) {
+    return { valid: false, details: 'Attestation is not signed by the oracle' };
+  }
+  if (onChain) {
+    if (onChain.proofHash !== proofHash) {
+      return { valid: false, details: 'Proof hash does not match the gateway' };
+    }
+    if (onChain.verifier.toLowerCase() !== signer.toLowerCase()) {
+      return { valid: false, details: 'Attestation signer did not complete the request' };
+    }
+    const { verified, sybilScore } = signed.attestation;
+    if (onChain.verified !== verified || Number(onChain.sybilScore) !== sybilScore) {
+      return { valid: false, details: 'Attested result does not match the gateway' };
+    }
+  }
+  return { valid: true, details: 'Attestation verified' };
+}
+
+function attestationKey(domain: AttestationDomain, requestId: string) {
+  return `attestation:${domain.chainId}:${domain.verifyingContract.toLowerCase()}:${requestId}`;
+}
+
+/**
+ * Publish a signed attestation so anyone can check the gateway's proof hash against it
+ */
+export async function saveVerificationAttestation(signed: SignedVerificationAttestation) {
+  await setJson(ORACLE_STREAM_ID, attestationKey(signed.domain, signed.attestation.requestId), signed);
+}
+
+export async function getVerificationAttestation(
+  domain: AttestationDomain,
+  requestId: bigint | string
+): Promise<SignedVerificationAttestation | undefined> {
+  return findJson<SignedVerificationAttestation>(ORACLE_STREAM_ID, attestationKey(domain, requestId.toString()));
+}
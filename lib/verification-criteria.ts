@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { ethers } from 'ethers';
+import { DECIMAL_AMOUNT_PATTERN } from './transaction-verification';
+
+// Version of the criteria format; bump when the schema changes incompatibly
+export const CRITERIA_VERSION = 1;
+
+const address = z.string().refine(value => ethers.isAddress(value), { message: 'Invalid address' });
+// Decimal amounts in token units. Numbers are checked once written out, since String(1e-7) is "1e-7"
+const tokenAmount = z
+  .union([z.string(), z.number().nonnegative().transform(String)])
+  .pipe(z.string().regex(DECIMAL_AMOUNT_PATTERN, 'Invalid token amount'));
+
+const chainId = z.number().int().positive();
+const numericId = z.string().regex(/^\d+$/, 'Invalid ID');
+const repoSegment = z.string().regex(/^[\w.-]{1,100}$/, 'Invalid repository');
+const count = z.number().int().nonnegative();
+
+const baseCriteria = {
+  version: z.literal(CRITERIA_VERSION).default(CRITERIA_VERSION),
+};
+
+/**
+ * Single transfer of at least `minAmount` of a token (native currency when `tokenAddress` is omitted)
+ */
+export const transferCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('transfer'),
+  chainId: chainId.optional(),
+  tokenAddress: address.optional(),
+  minAmount: tokenAmount,
+});
+
+/**
+ * `count` swaps through `pools` (Uniswap V2/V3 style), or through any pool deployed by
+ * `factories`, optionally sent to `router`, each worth at least `minAmountUsd` of `tokenIn`
+ */
+export const swapCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('swap'),
+  chainId: chainId.optional(),
+  pools: z.array(address).min(1).optional(),
+  factories: z.array(address).min(1).optional(),
+  router: address.optional(),
+  tokenIn: address.optional(),
+  tokenOut: address.optional(),
+  minAmountUsd: z.number().nonnegative().optional(),
+  count: z.number().int().positive().default(1),
+});
+
+/**
+ * Bridge from `sourceChainId` to `destinationChainId`, optionally of a given source-chain `token`
+ * (zero address for native currency) and at least `minAmount` in token units
+ */
+export const bridgeCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('bridge'),
+  sourceChainId: chainId,
+  destinationChainId: chainId,
+  routes: z.array(z.string()).min(1).optional(),
+  token: address.optional(),
+  minAmount: tokenAmount.optional(),
+});
+
+/**
+ * Liquidity added to `pool` (Uniswap V2 pair or V3 pool) worth at least `minValueUsd`
+ * at mint time and kept open for `minDurationSeconds`
+ */
+export const liquidityCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('liquidity'),
+  chainId: chainId.optional(),
+  pool: address,
+  positionManager: address.optional(),
+  minValueUsd: z.number().nonnegative().optional(),
+  minDurationSeconds: z.number().int().nonnegative(),
+});
+
+/**
+ * ERC-721/ERC-1155 task: `mint` from `collection`, `hold` at least `minCount` tokens at
+ * `snapshotBlock`, or `purchase` through a marketplace
+ */
+export const nftCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('nft'),
+  chainId: chainId.optional(),
+  mode: z.enum(['mint', 'hold', 'purchase']),
+  collection: address,
+  standard: z.enum(['erc721', 'erc1155']).optional(),
+  tokenIds: z.array(z.union([z.string().regex(/^\d+$/, 'Invalid token ID'), z.number().int().nonnegative()])).optional(),
+  minCount: z.number().int().positive().default(1),
+  snapshotBlock: z.number().int().positive().optional(),
+  marketplaces: z.array(address).min(1).optional(),
+});
+
+/**
+ * Twitter task: `follow` the `targetUserId` or `targetUsername` account, or like, retweet,
+ * reply to or quote `tweetId`
+ */
+export const twitterCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('twitter'),
+  action: z.enum(['follow', 'like', 'retweet', 'reply', 'quote']),
+  tweetId: numericId.optional(),
+  targetUserId: numericId.optional(),
+  targetUsername: z.string().regex(/^\w{1,15}$/, 'Invalid Twitter username').optional(),
+});
+
+/**
+ * Discord task: `join` the `guildId` guild, or hold every one of `roleIds` in it
+ */
+export const discordCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('discord'),
+  action: z.enum(['join', 'role']),
+  guildId: numericId,
+  roleIds: z.array(numericId).min(1).optional(),
+});
+
+/**
+ * GitHub task: `star`, `merged_pr` or `fork_commit` on `owner`/`repo` (PRs and commits after
+ * `since`, in unix seconds), or an `account` at least `minAccountAgeDays` old with
+ * `minContributions` over the past year
+ */
+export const githubCriteriaSchema = z.object({
+  ...baseCriteria,
+  type: z.literal('github'),
+  action: z.enum(['star', 'merged_pr', 'fork_commit', 'account']),
+  owner: repoSegment.optional(),
+  repo: repoSegment.optional(),
+  since: count.optional(),
+  minAccountAgeDays: count.optional(),
+  minContributions: count.optional(),
+});
+
+export const verificationCriteriaSchema = z
+  .discriminatedUnion('type', [
+    transferCriteriaSchema,
+    swapCriteriaSchema,
+    bridgeCriteriaSchema,
+    liquidityCriteriaSchema,
+    nftCriteriaSchema,
+    twitterCriteriaSchema,
+    discordCriteriaSchema,
+    githubCriteriaSchema,
+  ])
+  .superRefine((criteria, ctx) => {
+    const missing = (path: string, message = 'Required') =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+    switch (criteria.type) {
+      case 'swap':
+        // Without either, any contract emitting a Swap log would count
+        if (!criteria.pools && !criteria.factories) missing('pools', 'Either pools or factories is required');
+        break;
+      case 'twitter':
+        if (criteria.action === 'follow' && !criteria.targetUserId && !criteria.targetUsername) {
+          missing('targetUserId', 'Either targetUserId or targetUsername is required');
+        }
+        if (criteria.action !== 'follow' && !criteria.tweetId) missing('tweetId');
+        break;
+      case 'discord':
+        if (criteria.action === 'role' && !criteria.roleIds) missing('roleIds');
+        break;
+      case 'github':
+        if (criteria.action !== 'account') {
+          if (!criteria.owner) missing('owner');
+          if (!criteria.repo) missing('repo');
+        } else if (criteria.minAccountAgeDays === undefined && criteria.minContributions === undefined) {
+          // Without a threshold any linked account would pass
+          missing('minAccountAgeDays', 'Either minAccountAgeDays or minContributions is required');
+        }
+        break;
+    }
+  });
+
+export type TransferCriteria = z.infer<typeof transferCriteriaSchema>;
+export type SwapCriteria = z.infer<typeof swapCriteriaSchema>;
+export type BridgeCriteria = z.infer<typeof bridgeCriteriaSchema>;
+export type LiquidityCriteria = z.infer<typeof liquidityCriteriaSchema>;
+export type NftCriteria = z.infer<typeof nftCriteriaSchema>;
+export type TwitterCriteria = z.infer<typeof twitterCriteriaSchema>;
+export type DiscordCriteria = z.infer<typeof discordCriteriaSchema>;
+export type GitHubCriteria = z.infer<typeof githubCriteriaSchema>;
+export type VerificationCriteria = z.infer<typeof verificationCriteriaSchema>;
+export type SocialCriteria = TwitterCriteria | DiscordCriteria | GitHubCriteria;
+export type OnChainCriteria = Exclude<VerificationCriteria, SocialCriteria>;
+
+/**
+ * Whether the criteria describe a social task, verified through the wallet's linked account
+ */
+export function isSocialCriteria(criteria: VerificationCriteria): criteria is SocialCriteria {
+  return criteria.type === 'twitter' || criteria.type === 'discord' || criteria.type === 'github';
+}
+
+/**
+ * Parse and validate the `verificationCriteria` JSON string stored on a TaskRegistry task
+ */
+export function parseVerificationCriteria(json: string): VerificationCriteria {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Verification criteria is not valid JSON');
+  }
+
+  const result = verificationCriteriaSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'criteria'}: ${issue.message}`);
+    throw new Error(`Invalid verification criteria: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Serialize criteria for `TaskRegistry.createTask`, validating it first
+ */
+export function serializeVerificationCriteria(criteria: z.input<typeof verificationCriteriaSchema>): string {
+  return JSON.stringify(verificationCriteriaSchema.parse(criteria));
+}
@@ -1,268 +1,555 @@
-import { generateDeviceFingerprint, advancedSybilDetection } from './sybil-detection';
+import { ethers } from 'ethers';
+import { fetchTask, RegistryTask } from './task-registry';
+import {
+  DiscordCriteria,
+  GitHubCriteria,
+  isSocialCriteria,
+  OnChainCriteria,
+  parseVerificationCriteria,
+  TwitterCriteria,
+  VerificationCriteria,
+} from './verification-criteria';
+import { getProvider, OG_CHAIN_ID } from './chains';
+import { evaluateCriteria, onChainProofSchema } from './criteria-evaluator';
+import { getSocialLink } from './social-linking';
+import { registerVerifier, RetryableVerificationError, runVerifier, Verifier } from './verifier-registry';
+import { defaultSybilScoringSources, scoreSybilRisk, SybilScore, SybilScoringSources } from './sybil-scoring';
+import type { TwitterAction } from './twitter-verification';
+import type { DiscordAction } from './discord-verification';
+import type { GitHubAction } from './github-verification';
+import { discordProofSchema, githubProofSchema, SocialProof, twitterProofSchema } from './social-proof';
+
+// Relative API routes only resolve in the browser; server-side callers (oracle worker) set an absolute base
+const API_BASE_URL = process.env.ORACLE_API_BASE_URL || '';
+
+// VerifierGateway.VerificationType, in enum order
+export const VERIFICATION_TYPES = [
+  'ONCHAIN_TRANSACTION',
+  'OFFCHAIN_SOCIAL',
+  'OFFCHAIN_GITHUB',
+  'OFFCHAIN_DISCORD',
+  'CUSTOM_ORACLE',
+] as const;
+
+export type VerificationType = (typeof VERIFICATION_TYPES)[number];
 
 export interface VerificationRequest {
   taskId: number;
   userId: string;
   walletAddress: string;
-  proofData: any;
-  verificationType: 'ONCHAIN' | 'OFFCHAIN_SOCIAL';
+  // Parsed against the proof schema of the verifier the request is routed to
+  proofData: unknown;
+  verificationType: VerificationType;
 }
 
 export interface VerificationResult {
   verified: boolean;
+  // Filled in by the sybil scoring stage once a verifier has passed the completion
   sybilScore: number;
   proofHash: string;
   timestamp: number;
   details: string;
+  // Set (with `verified: false`) when the outcome can't be decided yet, e.g. while a minimum
+  // holding period runs: unix ms after which the oracle worker verifies the request again
+  pendingUntil?: number;
+  // Raw material behind the result, archived to 0G Storage by the oracle worker
+  evidence?: VerificationEvidence;
 }
 
+export interface ApiResponseEvidence {
+  url: string;
+  status: number;
+  body: unknown;
+}
+
+// What the social verification routes respond with; the body is JSON (or null) from the route
+type SocialVerificationBody = { verified?: unknown; details?: unknown } | null;
+
 /**
- * Verify on-chain transaction tasks (Swap, Bridge, DeFi)
+ * Everything needed to replay a verification later
+ */
+export interface VerificationEvidence {
+  // Task criteria the proof was evaluated against, including their format version
+  criteria?: VerificationCriteria;
+  // Receipts of the transactions that satisfied the criteria, as JSON
+  receipts?: unknown[];
+  // Platform API responses, as returned by the social verification routes
+  apiResponses?: ApiResponseEvidence[];
+  sybil?: SybilScore;
+}
+
+/**
+ * Look up the receipts of matched transactions on the chains the criteria cover. A lookup
+ * failure throws a RetryableVerificationError: the verdict stands, only its evidence is missing.
+ */
+async function fetchReceipts(criteria: OnChainCriteria, hashes: string[]): Promise<unknown[]> {
+  const chainIds =
+    criteria.type === 'bridge' ? [criteria.sourceChainId, criteria.destinationChainId] : [criteria.chainId ?? OG_CHAIN_ID];
+
+  const receipts: unknown[] = [];
+  try {
+    for (const hash of hashes) {
+      for (const chainId of chainIds) {
+        const receipt = await getProvider(chainId).getTransactionReceipt(hash);
+        if (receipt) {
+          receipts.push({ chainId, ...receipt.toJSON() });
+          break;
+        }
+      }
+    }
+  } catch (error) {
+    throw new RetryableVerificationError('Unable to collect receipts', error);
+  }
+  return receipts;
+}
+
+/**
+ * Parse the proof data stored with a completion; proofs that aren't JSON are passed through as text
+ */
+export function parseProofData(proofData: string): unknown {
+  try {
+    return JSON.parse(proofData);
+  } catch {
+    return proofData;
+  }
+}
+
+/**
+ * Verify on-chain transaction tasks (Swap, Bridge, DeFi) against the task's verification criteria.
+ * RPC errors propagate so the request is retried rather than rejected.
  */
 export async function verifyOnChainTask(
   taskId: number,
   walletAddress: string,
-  proofData: any
+  proofData: unknown,
+  knownTask?: RegistryTask
 ): Promise<VerificationResult> {
-  try {
-    const { transactionHash, expectedAmount, tokenAddress } = proofData;
-    
-    // Verify transaction exists and is valid
-    const txValid = await verifyTransaction(transactionHash, walletAddress, expectedAmount, tokenAddress);
-    
-    if (!txValid) {
-      return {
-        verified: false,
-        sybilScore: 0,
-        proofHash: '',
-        timestamp: Date.now(),
-        details: 'Transaction verification failed',
-      };
-    }
-
-    // Get sybil score
-    const fingerprint = generateDeviceFingerprint();
-    const sybilResult = advancedSybilDetection(fingerprint, walletAddress, [], []);
-    
+  const proof = onChainProofSchema.safeParse(proofData);
+  if (!proof.success) {
+    const issues = proof.error.issues.map(issue => `${issue.path.join('.') || 'proof'}: ${issue.message}`);
     return {
-      verified: true,
-      sybilScore: sybilResult.score,
-      proofHash: generateProofHash(transactionHash, walletAddress),
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
       timestamp: Date.now(),
-      details: 'On-chain transaction verified successfully',
+      details: `Invalid proof: ${issues.join('; ')}`,
     };
+  }
+  const task = knownTask ?? (await fetchTask(taskId));
+  let criteria: VerificationCriteria;
+  try {
+    criteria = parseVerificationCriteria(task.verificationCriteria);
   } catch (error) {
-    console.error('Error verifying on-chain task:', error);
+    // Malformed criteria won't parse on a retry either
+    return {
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
+      timestamp: Date.now(),
+      details: error instanceof Error ? error.message : 'Invalid verification criteria',
+    };
+  }
+  if (isSocialCriteria(criteria)) {
     return {
       verified: false,
       sybilScore: 0,
       proofHash: '',
       timestamp: Date.now(),
-      details: 'Verification error occurred',
+      details: `${criteria.type} criteria are verified through the linked account, not on-chain`,
     };
   }
+
+  const evaluation = await evaluateCriteria(criteria, {
+    walletAddress,
+    proofData: proof.data,
+    startTime: task.startTime,
+    endTime: task.endTime,
+  });
+  if (evaluation.pendingUntil !== undefined) {
+    return {
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
+      timestamp: Date.now(),
+      details: evaluation.details,
+      pendingUntil: evaluation.pendingUntil * 1000,
+    };
+  }
+  const result: VerificationResult = evaluation.passed
+    ? {
+        verified: true,
+        sybilScore: 0,
+        proofHash: generateProofHash(taskId, walletAddress, ...evaluation.matched),
+        timestamp: Date.now(),
+        details: evaluation.details,
+      }
+    : { verified: false, sybilScore: 0, proofHash: '', timestamp: Date.now(), details: evaluation.details };
+
+  // Evidence is collected once the verdict is reached, so a failed receipt lookup never turns it
+  // into a rejection; the request is retried instead
+  return { ...result, evidence: { criteria, receipts: await fetchReceipts(criteria, evaluation.matched) } };
 }
 
 /**
- * Verify off-chain social tasks (Twitter)
+ * Verify off-chain social tasks through the verifier registered for `proofData.platform`
  */
 export async function verifyOffChainSocialTask(
   taskId: number,
   walletAddress: string,
-  proofData: any
+  proofData: unknown
+): Promise<VerificationResult> {
+  return verifyTask({ taskId, userId: walletAddress, walletAddress, proofData, verificationType: 'OFFCHAIN_SOCIAL' });
+}
+
+/**
+ * Single entry point for social tasks: checks that the account the wallet linked on the proof's
+ * platform performed the action in the task's verification criteria, which the proof must name
+ */
+export async function verifySocialTask(
+  task: RegistryTask,
+  walletAddress: string,
+  proof: SocialProof
 ): Promise<VerificationResult> {
+  let criteria: VerificationCriteria;
   try {
-    const { platform, action, proof } = proofData;
-    
-    let verified = false;
-    let details = '';
-
-    switch (platform) {
-      case 'twitter':
-        verified = await verifyTwitterAction(action, proof);
-        details = verified ? 'Twitter action verified' : 'Twitter verification failed';
-        break;
-      default:
-        return {
-          verified: false,
-          sybilScore: 0,
-          proofHash: '',
-          timestamp: Date.now(),
-          details: 'Unsupported social platform',
-        };
-    }
+    criteria = parseVerificationCriteria(task.verificationCriteria);
+  } catch (error) {
+    return {
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
+      timestamp: Date.now(),
+      details: error instanceof Error ? error.message : 'Invalid verification criteria',
+    };
+  }
+  if (!isSocialCriteria(criteria) || criteria.type !== proof.platform) {
+    return {
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
+      timestamp: Date.now(),
+      details: `Task has no ${proof.platform} verification criteria`,
+    };
+  }
+  if (proof.action !== criteria.action) {
+    return {
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
+      timestamp: Date.now(),
+      details: `Task requires the ${criteria.action} action, not ${proof.action}`,
+    };
+  }
 
-    if (!verified) {
-      return {
-        verified: false,
-        sybilScore: 0,
-        proofHash: '',
-        timestamp: Date.now(),
-        details,
-      };
-    }
+  switch (criteria.type) {
+    case 'twitter':
+      return verifyTwitterTask(task.id, walletAddress, criteria);
+    case 'discord':
+      return verifyDiscordTask(task.id, walletAddress, criteria);
+    case 'github':
+      return verifyGitHubTask(task.id, walletAddress, criteria);
+  }
+}
 
-    // Get sybil score
-    const fingerprint = generateDeviceFingerprint();
-    const sybilResult = advancedSybilDetection(fingerprint, walletAddress, [], []);
-    
+/**
+ * Verify Twitter actions performed by the account linked to the wallet
+ */
+async function verifyTwitterTask(
+  taskId: number,
+  walletAddress: string,
+  criteria: TwitterCriteria
+): Promise<VerificationResult> {
+  const link = await getSocialLink(walletAddress, 'twitter');
+  if (!link) {
     return {
-      verified: true,
-      sybilScore: sybilResult.score,
-      proofHash: generateProofHash(platform, action, proof),
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
       timestamp: Date.now(),
-      details,
+      details: 'Wallet has no linked Twitter account',
     };
-  } catch (error) {
-    console.error('Error verifying off-chain social task:', error);
+  }
+
+  // The acting account comes from the link and the target from the task, never from the client
+  const tweetId = criteria.action === 'follow' ? undefined : criteria.tweetId;
+  const { targetUserId, targetUsername } = criteria;
+  const target = criteria.action === 'follow' ? { targetUserId, targetUsername } : {};
+  const { verified, response } = await verifyTwitterAction(criteria.action, tweetId, {
+    ...target,
+    userId: link.accountId,
+  });
+  const evidence: VerificationEvidence = { criteria, apiResponses: [response] };
+
+  if (!verified) {
     return {
       verified: false,
       sybilScore: 0,
       proofHash: '',
       timestamp: Date.now(),
-      details: 'Social verification error occurred',
+      details: 'Twitter verification failed',
+      evidence,
     };
   }
+
+  return {
+    verified: true,
+    sybilScore: 0,
+    proofHash: generateProofHash(
+      taskId,
+      walletAddress,
+      'twitter',
+      criteria.action,
+      link.accountId,
+      tweetId ?? target.targetUserId ?? target.targetUsername
+    ),
+    timestamp: Date.now(),
+    details: `Twitter action verified for @${link.handle}`,
+    evidence,
+  };
 }
 
 /**
- * Verify Twitter tasks
+ * Verify Twitter action
  */
-export async function verifyTwitterTask(
+async function verifyTwitterAction(
+  action: TwitterAction,
+  tweetId: string | undefined,
+  proof: { userId: string; targetUserId?: string; targetUsername?: string }
+): Promise<{ verified: boolean; response: ApiResponseEvidence }> {
+  const response = await postVerification('/api/social/twitter/verify', { tweetId, action, proof });
+  const body = response.body as SocialVerificationBody;
+  return { verified: response.status === 200 && body?.verified === true, response };
+}
+
+/**
+ * Verify Discord tasks (guild membership, roles) for the Discord account linked to the wallet
+ */
+async function verifyDiscordTask(
   taskId: number,
   walletAddress: string,
-  proofData: any
+  criteria: DiscordCriteria
 ): Promise<VerificationResult> {
-  try {
-    const { tweetId, action, proof } = proofData;
-    
-    // Verify Twitter action (like, retweet, follow)
-    const verified = await verifyTwitterAction(tweetId, action, proof);
-    
-    if (!verified) {
-      return {
-        verified: false,
-        sybilScore: 0,
-        proofHash: '',
-        timestamp: Date.now(),
-        details: 'Twitter action verification failed',
-      };
-    }
-
-    // Get sybil score
-    const fingerprint = generateDeviceFingerprint();
-    const sybilResult = advancedSybilDetection(fingerprint, walletAddress, [], []);
-    
+  const link = await getSocialLink(walletAddress, 'discord');
+  if (!link) {
     return {
-      verified: true,
-      sybilScore: sybilResult.score,
-      proofHash: generateProofHash(tweetId, action, proof),
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
       timestamp: Date.now(),
-      details: 'Twitter action verified successfully',
+      details: 'Wallet has no linked Discord account',
     };
-  } catch (error) {
-    console.error('Error verifying Twitter task:', error);
+  }
+
+  const { verified, response } = await verifyDiscordAction(criteria.action, {
+    guildId: criteria.guildId,
+    roleIds: criteria.roleIds,
+    userId: link.accountId,
+  });
+  const evidence: VerificationEvidence = { criteria, apiResponses: [response] };
+
+  if (!verified) {
     return {
       verified: false,
       sybilScore: 0,
       proofHash: '',
       timestamp: Date.now(),
-      details: 'Twitter verification error occurred',
+      details: 'Discord action verification failed',
+      evidence,
     };
   }
+
+  return {
+    verified: true,
+    sybilScore: 0,
+    proofHash: generateProofHash(taskId, walletAddress, 'discord', criteria.action, link.accountId, criteria.guildId),
+    timestamp: Date.now(),
+    details: `Discord action verified for @${link.handle}`,
+    evidence,
+  };
 }
 
 /**
- * Verify transaction on blockchain
+ * Verify Discord action
  */
-async function verifyTransaction(
-  txHash: string,
+async function verifyDiscordAction(
+  action: DiscordAction,
+  proof: { guildId: string; roleIds?: string[]; userId: string }
+): Promise<{ verified: boolean; response: ApiResponseEvidence }> {
+  const response = await postVerification('/api/social/discord/verify', { action, proof });
+  const body = response.body as SocialVerificationBody;
+  return { verified: response.status === 200 && body?.verified === true, response };
+}
+
+/**
+ * Verify GitHub developer tasks (star, merged PR, fork and commit, account age and activity)
+ * for the GitHub account linked to the wallet
+ */
+async function verifyGitHubTask(
+  taskId: number,
   walletAddress: string,
-  expectedAmount: number,
-  tokenAddress: string
-): Promise<boolean> {
-  try {
-    // This would integrate with actual blockchain RPC
-    // For now, simulate verification
-    const response = await fetch('/api/blockchain/verify-transaction', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        txHash,
-        walletAddress,
-        expectedAmount,
-        tokenAddress,
-      }),
-    });
+  criteria: GitHubCriteria
+): Promise<VerificationResult> {
+  const link = await getSocialLink(walletAddress, 'github');
+  if (!link) {
+    return {
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
+      timestamp: Date.now(),
+      details: 'Wallet has no linked GitHub account',
+    };
+  }
 
-    if (!response.ok) {
-      return false;
-    }
+  const { action, owner, repo, since, minAccountAgeDays, minContributions } = criteria;
+  const result = await verifyGitHubAction(action, {
+    owner,
+    repo,
+    since,
+    minAccountAgeDays,
+    minContributions,
+    userId: link.accountId,
+  });
+  const evidence: VerificationEvidence = { criteria, apiResponses: [result.response] };
 
-    const result = await response.json();
-    return result.verified;
-  } catch (error) {
-    console.error('Error verifying transaction:', error);
-    return false;
+  if (!result.verified) {
+    return {
+      verified: false,
+      sybilScore: 0,
+      proofHash: '',
+      timestamp: Date.now(),
+      details: result.details,
+      evidence,
+    };
   }
+
+  return {
+    verified: true,
+    sybilScore: 0,
+    proofHash: generateProofHash(
+      taskId,
+      walletAddress,
+      'github',
+      action,
+      link.accountId,
+      ...(action === 'account' ? [] : [owner, repo])
+    ),
+    timestamp: Date.now(),
+    details: `${result.details} for @${link.handle}`,
+    evidence,
+  };
 }
 
 /**
- * Verify Twitter action
+ * Verify GitHub action
+ */
+async function verifyGitHubAction(
+  action: GitHubAction,
+  proof: Pick<GitHubCriteria, 'owner' | 'repo' | 'since' | 'minAccountAgeDays' | 'minContributions'> & {
+    userId: string;
+  }
+): Promise<{ verified: boolean; details: string; response: ApiResponseEvidence }> {
+  const response = await postVerification('/api/social/github/verify', { action, proof });
+  const body = response.body as SocialVerificationBody;
+  return {
+    verified: response.status === 200 && body?.verified === true,
+    details: typeof body?.details === 'string' ? body.details : 'GitHub verification failed',
+    response,
+  };
+}
+
+/**
+ * POST to a social verification route, keeping the response as evidence.
+ * Rate limits and platform or network failures throw a RetryableVerificationError.
  */
-async function verifyTwitterAction(tweetId: string, action: string, proof: any): Promise<boolean> {
+async function postVerification(url: string, payload: unknown): Promise<ApiResponseEvidence> {
+  let response: Response;
   try {
-    const response = await fetch('/api/social/twitter/verify', {
+    response = await fetch(`${API_BASE_URL}${url}`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        tweetId,
-        action,
-        proof,
-      }),
+      body: JSON.stringify(payload),
     });
-
-    if (!response.ok) {
-      return false;
-    }
-
-    const result = await response.json();
-    return result.verified;
   } catch (error) {
-    console.error('Error verifying Twitter action:', error);
-    return false;
+    throw new RetryableVerificationError(`${url} is unreachable`, error);
+  }
+  if (response.status === 429 || response.status >= 500) {
+    throw new RetryableVerificationError(`${url} responded with ${response.status}`);
   }
+  return { url, status: response.status, body: await response.json().catch(() => null) };
 }
 
 /**
- * Generate proof hash for verification
+ * Generate proof hash for verification: keccak256 over the ABI encoding of the values as
+ * strings, so no two distinct inputs share an encoding
  */
-function generateProofHash(...data: any[]): string {
-  const combined = data.join('|');
-  return btoa(combined).replace(/[^a-zA-Z0-9]/g, '');
+function generateProofHash(...data: unknown[]): string {
+  return ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(['string[]'], [data.map(value => String(value))]));
 }
 
 /**
- * Main verification function that routes to appropriate verifier
+ * Main verification function: routes to the registered verifier, then scores sybil risk
+ * for completions it passed. Scoring errors reject with a RetryableVerificationError, so the
+ * oracle worker retries the request and eventually dead-letters it.
  */
-export async function verifyTask(request: VerificationRequest): Promise<VerificationResult> {
-  switch (request.verificationType) {
-    case 'ONCHAIN':
-      return verifyOnChainTask(request.taskId, request.walletAddress, request.proofData);
-    case 'OFFCHAIN_SOCIAL':
-      return verifyOffChainSocialTask(request.taskId, request.walletAddress, request.proofData);
-    default:
-      return {
-        verified: false,
-        sybilScore: 0,
-        proofHash: '',
-        timestamp: Date.now(),
-        details: 'Unsupported verification type',
-      };
+export async function verifyTask(
+  request: VerificationRequest,
+  sybilSources: SybilScoringSources = defaultSybilScoringSources
+): Promise<VerificationResult> {
+  const result = await runVerifier(request);
+  if (!result.verified) {
+    return result;
   }
+
+  let sybil: SybilScore;
+  try {
+    sybil = await scoreSybilRisk({ taskId: request.taskId, walletAddress: request.walletAddress }, sybilSources);
+  } catch (error) {
+    throw new RetryableVerificationError('Sybil scoring failed', error);
+  }
+  return { ...result, sybilScore: sybil.score, evidence: { ...result.evidence, sybil } };
 }
 
+// Built-in verifiers; advertiser CUSTOM_ORACLE verifiers are loaded by the oracle worker
+const BUILT_IN_VERIFIERS: Verifier[] = [
+  {
+    id: 'onchain',
+    verificationTypes: ['ONCHAIN_TRANSACTION'],
+    proofSchema: onChainProofSchema,
+    // Criteria scans walk event logs across the whole task window
+    timeoutMs: 120_000,
+    categories: ['SWAP', 'BRIDGE', 'DEFI', 'NFT'],
+    verify: ({ task, walletAddress, proofData }) => verifyOnChainTask(task.id, walletAddress, proofData, task),
+  },
+  {
+    id: 'twitter',
+    verificationTypes: ['OFFCHAIN_SOCIAL'],
+    platform: 'twitter',
+    proofSchema: twitterProofSchema,
+    timeoutMs: 30_000,
+    categories: ['SOCIAL'],
+    verify: ({ task, walletAddress, proofData }) => verifySocialTask(task, walletAddress, proofData),
+  },
+  {
+    id: 'discord',
+    verificationTypes: ['OFFCHAIN_DISCORD', 'OFFCHAIN_SOCIAL'],
+    platform: 'discord',
+    proofSchema: discordProofSchema,
+    timeoutMs: 30_000,
+    categories: ['SOCIAL'],
+    verify: ({ task, walletAddress, proofData }) => verifySocialTask(task, walletAddress, proofData),
+  },
+  {
+    id: 'github',
+    verificationTypes: ['OFFCHAIN_GITHUB', 'OFFCHAIN_SOCIAL'],
+    platform: 'github',
+    proofSchema: githubProofSchema,
+    // Star and fork lookups page through the user's repositories
+    timeoutMs: 60_000,
+    categories: ['SOCIAL'],
+    verify: ({ task, walletAddress, proofData }) => verifySocialTask(task, walletAddress, proofData),
+  },
+];
+
+BUILT_IN_VERIFIERS.forEach(registerVerifier);
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { fetchTask, RegistryTask, TaskCategory } from './task-registry';
+import type { VerificationRequest, VerificationResult, VerificationType } from './verification-oracle';
+
+export interface VerifierContext<P> {
+  task: RegistryTask;
+  walletAddress: string;
+  // Proof data, already validated against the verifier's proof schema
+  proofData: P;
+}
+
+/**
+ * A verifier for one platform (or none) under one or more gateway verification types
+ */
+export interface Verifier<P = any> {
+  id: string;
+  verificationTypes: readonly VerificationType[];
+  // Matched against `proofData.platform`; verifiers without one handle requests that carry no platform
+  platform?: string;
+  proofSchema: z.ZodType<P, z.ZodTypeDef, unknown>;
+  // The attempt is abandoned (and retried) once this elapses
+  timeoutMs: number;
+  categories: readonly TaskCategory[];
+  // Resolves with a definitive result; throws when the outcome could not be determined
+  verify(context: VerifierContext<P>): Promise<VerificationResult>;
+}
+
+/**
+ * Verification could not reach a definitive result (RPC or API failure, rate limit, timeout).
+ * The oracle worker retries these instead of submitting a rejection.
+ */
+export class RetryableVerificationError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'RetryableVerificationError';
+  }
+}
+
+export function isRetryableVerificationError(error: unknown): error is RetryableVerificationError {
+  return error instanceof RetryableVerificationError;
+}
+
+const verifiers = new Map<VerificationType, Verifier[]>();
+
+// Just enough of a proof to pick its verifier; the verifier's own schema checks the rest
+const proofRoutingSchema = z.object({ platform: z.string().optional() });
+
+function failure(details: string): VerificationResult {
+  return { verified: false, sybilScore: 0, proofHash: '', timestamp: Date.now(), details };
+}
+
+/**
+ * Register a verifier. A (verification type, platform) pair can only be claimed once.
+ */
+export function registerVerifier(verifier: Verifier) {
+  for (const type of verifier.verificationTypes) {
+    const registered = verifiers.get(type) ?? [];
+    if (registered.some(existing => existing.platform === verifier.platform)) {
+      throw new Error(`A verifier for ${type}${verifier.platform ? `/${verifier.platform}` : ''} is already registered`);
+    }
+    verifiers.set(type, [...registered, verifier]);
+  }
+}
+
+/**
+ * Find the verifier for a verification type and optional platform
+ */
+export function getVerifier(type: VerificationType, platform?: string): Verifier | undefined {
+  const candidates = verifiers.get(type) ?? [];
+  if (platform !== undefined) {
+    return candidates.find(verifier => verifier.platform === platform);
+  }
+  // A lone platform verifier (e.g. Discord under OFFCHAIN_DISCORD) doesn't need the platform spelled out
+  return candidates.find(verifier => verifier.platform === undefined) ?? (candidates.length === 1 ? candidates[0] : undefined);
+}
+
+export function supportsVerificationType(type: VerificationType): boolean {
+  return (verifiers.get(type)?.length ?? 0) > 0;
+}
+
+export function listVerifiers(): Verifier[] {
+  return Array.from(new Set(Array.from(verifiers.values()).flat()));
+}
+
+async function withTimeout<T>(operation: Promise<T>, timeoutMs: number, onTimeout: () => Error): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>((_resolve, reject) => {
+    timer = setTimeout(() => reject(onTimeout()), timeoutMs);
+  });
+  try {
+    return await Promise.race([operation, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Route a verification request to its registered verifier, enforcing the verifier's
+ * task categories, proof schema and timeout. Resolves only with definitive results;
+ * lookup failures and timeouts reject with a RetryableVerificationError.
+ */
+export async function runVerifier(request: VerificationRequest): Promise<VerificationResult> {
+  const routing = proofRoutingSchema.safeParse(request.proofData);
+  const platform = routing.success ? routing.data.platform : undefined;
+  const verifier = getVerifier(request.verificationType, platform);
+  if (!verifier) {
+    return failure(platform ? `Unsupported platform: ${platform}` : 'Unsupported verification type');
+  }
+
+  const proof = verifier.proofSchema.safeParse(request.proofData);
+  if (!proof.success) {
+    const issues = proof.error.issues.map(issue => `${issue.path.join('.') || 'proof'}: ${issue.message}`);
+    return failure(`Invalid proof: ${issues.join('; ')}`);
+  }
+
+  try {
+    const task = await fetchTask(request.taskId);
+    if (!verifier.categories.includes(task.category)) {
+      return failure(`${verifier.id} verifier does not support ${task.category} tasks`);
+    }
+
+    return await withTimeout(
+      verifier.verify({ task, walletAddress: request.walletAddress, proofData: proof.data }),
+      verifier.timeoutMs,
+      () => new RetryableVerificationError(`${verifier.id} verification timed out`)
+    );
+  } catch (error) {
+    if (isRetryableVerificationError(error)) throw error;
+    throw new RetryableVerificationError(`${verifier.id} verification failed`, error);
+  }
+}
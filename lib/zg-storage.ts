@@ -1,7 +1,8 @@
 import { ZgFile, Indexer, Batcher, KvClient } from '@0glabs/0g-ts-sdk';
 import { ethers } from 'ethers';
 import fs from 'fs';
-import { Readable } from 'stream';
+import os from 'os';
+import path from 'path';
 
 // Network Constants from .env.local
 const RPC_URL = process.env.NEXT_PUBLIC_OG_CHAIN_RPC_URL || 'https://evmrpc-testnet.0g.ai';
@@ -34,6 +35,18 @@ export async function downloadFile(rootHash: string, outputPath: string) {
   console.log('Download successful!');
 }
 
+// Download a JSON file; the download is checked against the root hash
+export async function downloadJson<T>(rootHash: string): Promise<T> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'homare-'));
+  try {
+    const outputPath = path.join(dir, 'data.json');
+    await downloadFile(rootHash, outputPath);
+    return JSON.parse(fs.readFileSync(outputPath, 'utf-8')) as T;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
 // KV Upload
 export async function uploadToKV(streamId: string, key: string, value: string) {
   const [nodes, err] = await indexer.selectNodes(1);
@@ -47,59 +60,38 @@ export async function uploadToKV(streamId: string, key: string, value: string) {
   console.log('KV upload successful! TX:', tx);
 }
 
-// KV Download
-export async function downloadFromKV(streamId: string, key: string) {
-  const kvClient = new KvClient('http://3.101.147.150:6789');
+// KV Download: the value under (stream, key) as text, or null if there is none
+export async function downloadFromKV(
+  streamId: string,
+  key: string,
+  kvNodeUrl: string | undefined = process.env.ZG_KV_NODE_URL
+): Promise<string | null> {
+  if (!kvNodeUrl) throw new Error('ZG_KV_NODE_URL is not set; point it at a 0G KV node');
+  const kvClient = new KvClient(kvNodeUrl);
   const keyBytes = Uint8Array.from(Buffer.from(key, 'utf-8'));
   const value = await kvClient.getValue(streamId, ethers.encodeBase64(keyBytes));
-  return value;
-}
-
-/**
- * 数値をKVストレージに保存
- */
-export async function setNumber(streamId: string, key: string, value: number) {
-  await uploadToKV(streamId, key, value.toString());
-}
-
-/**
- * KVストレージから数値を取得
- */
-export async function getNumber(streamId: string, key: string): Promise<number> {
-  const val = await downloadFromKV(streamId, key);
-  if (val === null || val === undefined) throw new Error('No value found for key');
-  return Number(val);
-}
-
-/**
- * 任意のJSONデータをKVストレージに保存
- */
-export async function setJson(streamId: string, key: string, obj: any) {
-  await uploadToKV(streamId, key, JSON.stringify(obj));
+  return value ? Buffer.from(value.data, 'base64').toString('utf-8') : null;
 }
 
-/**
- * KVストレージからJSONデータを取得
- */
-export async function getJson<T>(streamId: string, key: string): Promise<T> {
-  const val = await downloadFromKV(streamId, key);
-  if (val === null || val === undefined) throw new Error('No value found for key');
-  return JSON.parse(val) as T;
-}
-
-// Upload from stream
+// Upload a string as a file; the SDK reads files from disk, so it is staged in a temp directory
 export async function uploadStream(data: string, filename: string) {
-  const stream = new Readable();
-  stream.push(data);
-  stream.push(null);
-  const file = await ZgFile.fromStream(stream, filename);
   if (!signer) throw new Error('Signer not initialized. Set PRIVATE_KEY in .env.local');
-  const [tx, err] = await indexer.upload(file, RPC_URL, signer);
-  if (err === null) {
-    console.log('Stream uploaded!');
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'homare-'));
+  try {
+    const filePath = path.join(dir, path.basename(filename));
+    fs.writeFileSync(filePath, data);
+    const file = await ZgFile.fromFilePath(filePath);
+    try {
+      const [tx, err] = await indexer.upload(file, RPC_URL, signer);
+      if (err !== null) throw new Error(`Upload error: ${err}`);
+      console.log('Stream uploaded!');
+      return tx;
+    } finally {
+      await file.close();
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
   }
-  await file.close();
-  return tx;
 }
 
 // Download as stream
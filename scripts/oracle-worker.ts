@@ -0,0 +1,23 @@
+import { loadOracleWorkerConfig, startOracleWorker } from '../lib/oracle-worker';
+
+async function main() {
+  const config = loadOracleWorkerConfig();
+  console.log('Starting oracle worker...');
+  console.log('VerifierGateway:', config.gatewayAddress);
+  console.log('Checkpoint file:', config.checkpointPath);
+
+  const worker = await startOracleWorker(config);
+
+  const shutdown = async (signal: string) => {
+    console.log(`\nReceived ${signal}, stopping oracle worker...`);
+    await worker.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});